@@ -1,21 +1,16 @@
 "use client"
 
-import { useMemo } from "react"
+import { forwardRef, useId, useMemo } from "react"
 import {
     Area,
     AreaChart,
+    Brush,
     CartesianGrid,
+    ReferenceArea,
     XAxis,
     YAxis,
 } from "recharts"
-import {
-    Card,
-    CardContent,
-    CardDescription,
-    CardFooter,
-    CardHeader,
-    CardTitle,
-} from "../ui/card"
+import { ChartCard, ChartTrendIcon } from "../ui/chart-card"
 import {
     ChartContainer,
     ChartLegend,
@@ -24,7 +19,29 @@ import {
     ChartTooltipContent,
     type ChartConfig,
 } from "../ui/chart"
-import { TrendingUp } from "lucide-react"
+import { Button } from "../ui/button"
+import type { YAxisSide } from "../../lib/axis"
+import { ChartDataTable, describeCartesianChart, describeChartPoint } from "../ui/chart-data-table"
+import { ChartExportMenu } from "../ui/chart-export"
+import { ChartNotice, ChartStatusContent, type ChartStatus } from "../ui/chart-state"
+import { ChartDiagnosticsBadge } from "../ui/chart-diagnostics"
+import { renderChartAnnotations, type ChartAnnotation } from "../ui/chart-annotations"
+import { ChartCardHeader, ChartToggleGroup, type ChartToggleOptions } from "../ui/chart-header"
+import { toDate, type ChartDataRow, type TimeRangePreset } from "../../lib/date"
+import type { DownsampleConfig, DownsampleMethod } from "../../lib/downsample"
+import type { MissingValueMode } from "../../lib/missing"
+import type { ChartDiagnostic } from "../../lib/diagnostics"
+import type { ChartTransform } from "../../lib/transform"
+import { resolveFooterTrend, type ChartFooterTrend } from "../../lib/trend"
+import { formatValue, resolveAxisFormatter, type ValueFormat } from "../../lib/format"
+import type { AxisDomainOptions } from "../../lib/domain"
+import type { ChartRange, ChartZoomConfig } from "../../hooks/use-chart-zoom"
+import type { XAxisType } from "../../hooks/use-time-axis"
+import { useChartExport, type ChartExportConfig, type ChartExportHandle } from "../../hooks/use-chart-export"
+import { useChartKeyboard } from "../../hooks/use-chart-keyboard"
+import type { ChartStreamingConfig } from "../../hooks/use-chart-stream"
+import { useAreaChartModel } from "../../hooks/use-area-chart-model"
+import { RotateCcw } from "lucide-react"
 
 export type AreaChartVariant =
     | 'default'
@@ -45,13 +62,35 @@ export interface AreaConfig {
     stackId?: string
     type?: AreaCurveType
     fillOpacity?: number
+    yAxisId?: YAxisSide
+}
+
+// Domain options (domain, padding, tickCount, includeZero, nice, scale) come from the shared axis engine;
+// area axes stretch to 0 by default and stacked axes stay linear on 'log'
+export interface AreaYAxisConfig extends AxisDomainOptions {
+    tickFormatter?: (value: number) => string
+    format?: ValueFormat    // Shared format spec, used when no tickFormatter is given
+    hide?: boolean
+}
+
+export interface AreaTimeRangeConfig {
+    presets?: TimeRangePreset[]
+    value?: string          // Controlled preset value
+    defaultValue?: string   // Initial preset when uncontrolled
+    onChange?: (value: string) => void
+    display?: ChartToggleOptions['display']
+    position?: ChartToggleOptions['position']
 }
 
 export interface AreaChartComponentProps {
     title?: string
     description?: string
-    data: Array<Record<string, string | number>>
+    data: ChartDataRow[]    // Date values are accepted, read as ISO strings
     chartConfig: ChartConfig
+    // Reshape long-format rows first: pivot, group, time buckets, cumulative, moving average, percent of total.
+    // Generated series get a config of their own, chartConfig entries override their labels and colors.
+    // Compared by reference like data: keep it at module level or in useMemo
+    transform?: ChartTransform
     className?: string
 
     variant?: AreaChartVariant
@@ -59,12 +98,11 @@ export interface AreaChartComponentProps {
     areas?: AreaConfig[]
 
     xAxisKey?: string
+    xAxisType?: XAxisType   // 'time' parses ISO strings, Dates or epoch numbers and spaces points by time
     xAxisFormatter?: (value: string) => string
-    yAxisConfig?: {
-        domain?: [number, number] | 'auto'
-        tickFormatter?: (value: number) => string
-        hide?: boolean
-    }
+    locale?: string
+    yAxisConfig?: AreaYAxisConfig
+    rightYAxisConfig?: AreaYAxisConfig  // Used when an area sets yAxisId: 'right'
 
     showGrid?: boolean
     showTooltip?: boolean
@@ -77,41 +115,79 @@ export interface AreaChartComponentProps {
 
     margin?: { top?: number; right?: number; bottom?: number; left?: number }
 
+    // Missing (non-numeric) values: 'gap' breaks the area (default), 'zero', 'interpolate' and 'carry-forward' fill it
+    missingValues?: MissingValueMode
+
+    // Zoom: Brush under the plot plus drag-to-select, controlled via range/onRangeChange
+    zoom?: boolean | ChartZoomConfig
+    range?: ChartRange | null
+    onRangeChange?: (range: ChartRange | null) => void
+
+    // Time-range selector in the header, filters `data` by the date in `xAxisKey` (on by default for 'interactive')
+    timeRange?: boolean | AreaTimeRangeConfig
+
+    // Series hidden from the legend (click to toggle, shift/alt-click to isolate)
+    hiddenSeries?: string[]
+    onHiddenSeriesChange?: (hiddenSeries: string[]) => void
+
+    // Hover cursor and tooltip follow other charts with the same syncId (set for all charts inside a ChartSyncProvider)
+    syncId?: string
+
+    // Live data fed from useChartStream: no re-animation per update (new points appear without an x-axis slide),
+    // the y-domain moves with hysteresis
+    streaming?: boolean | ChartStreamingConfig
+
+    // Large series: plot at most `maxPoints` (default the chart width in px) while keeping peaks, re-sampled on resize and zoom
+    downsample?: DownsampleMethod | DownsampleConfig
+
+    // Reference lines, shaded ranges and point callouts, always kept inside the y-domain
+    annotations?: ChartAnnotation[]
+
+    // Loading skeleton, empty and error slots; empty is also detected from the data
+    status?: ChartStatus
+    errorMessage?: React.ReactNode
+    emptyState?: React.ReactNode
+    errorState?: React.ReactNode
+    onRetry?: () => void
+
+    // Export menu in the header (PNG, SVG, CSV); the ref API works without it
+    exportable?: boolean | ChartExportConfig
+
+    // Data table under the chart; it's always rendered for screen readers, this makes it visible
+    showDataTable?: boolean
+
+    // Data problems (unknown keys, non-numeric values, duplicate categories): warned and badged in development
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void
+
     footerContent?: {
         mainText?: string
         subText?: string
         showTrending?: boolean
         trendingIcon?: React.ReactNode
         trendingColor?: string
+        // Compute the headline, icon and color from the data instead of hardcoding them
+        trend?: ChartFooterTrend
     }
 }
 
-const getCurveType = (variant: AreaChartVariant): AreaCurveType => {
-    switch (variant) {
-        case 'linear':
-            return 'linear'
-        case 'step':
-            return 'step'
-        default:
-            return 'monotone'
-    }
-}
-
-const isStackedVariant = (variant: AreaChartVariant): boolean => {
-    return variant === 'stacked' || variant === 'stacked-expanded'
-}
+// Stacked-expanded values are shares of 100, on the axis and in the tooltip
+const EXPANDED_VALUE_FORMAT: ValueFormat = { type: 'percent', maximumFractionDigits: 0 }
 
-export const AreaChartComponent = ({
+export const AreaChartComponent = forwardRef<ChartExportHandle, AreaChartComponentProps>(({
     title,
     description,
-    data,
-    chartConfig,
+    data: sourceData,
+    chartConfig: sourceConfig,
+    transform,
     className = "",
     variant = 'default',
     areas,
     xAxisKey = "month",
-    xAxisFormatter = (value) => typeof value === 'string' ? value.slice(0, 3) : String(value),
+    xAxisType = 'category',
+    xAxisFormatter,
+    locale,
     yAxisConfig,
+    rightYAxisConfig,
     showGrid = true,
     showTooltip = true,
     showLegend,
@@ -120,57 +196,94 @@ export const AreaChartComponent = ({
     useGradient,
     gradientOpacity = { start: 0.8, end: 0.1 },
     margin = { left: 12, right: 12 },
+    missingValues = 'gap',
+    zoom,
+    range,
+    onRangeChange,
+    timeRange,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    streaming,
+    downsample,
+    annotations,
+    status,
+    errorMessage,
+    emptyState,
+    errorState,
+    onRetry,
+    exportable,
+    showDataTable = false,
     footerContent,
-}: AreaChartComponentProps) => {
-    // Determine curve type based on variant
-    const curveType = getCurveType(variant)
-
-    // Determine if stacked
-    const isStacked = isStackedVariant(variant)
-
-    // Auto determine showLegend based on variant
-    const shouldShowLegend = showLegend ?? (variant === 'legend' || variant === 'stacked' || variant === 'stacked-expanded')
-
-    // Auto determine showDots based on variant
-    const shouldShowDots = showDots ?? (variant === 'interactive')
-
-    // Auto determine showActiveDot (dot only on hover)
-    const shouldShowActiveDot = showActiveDot ?? true  // Default true: show dot on hover
-
-    // Auto determine gradient based on variant
-    const shouldUseGradient = useGradient ?? (variant === 'gradient')
-
-    // Auto-generate areas from chartConfig if not provided
-    const chartAreas = useMemo(() => {
-        if (areas) return areas
-
-        return Object.keys(chartConfig).map((key, index) => ({
-            dataKey: key,
-            fill: shouldUseGradient ? `url(#fill${key})` : chartConfig[key].color || `var(--chart-${index + 1})`,
-            stroke: chartConfig[key].color || `var(--chart-${index + 1})`,
-            stackId: isStacked ? 'stack' : undefined,
-            type: curveType,
-            fillOpacity: shouldUseGradient ? 1 : 0.4,
-        }))
-    }, [areas, chartConfig, isStacked, curveType, shouldUseGradient])
-
-    // Prepare data for stacked-expanded (normalize to 100%)
-    const normalizedData = useMemo(() => {
-        if (variant !== 'stacked-expanded') return data
-
-        return data.map(item => {
-            const newItem = { ...item }
-            const dataKeys = chartAreas.map(a => a.dataKey)
-            const total = dataKeys.reduce((sum, key) => sum + (Number(item[key]) || 0), 0)
-
-            if (total > 0) {
-                dataKeys.forEach(key => {
-                    newItem[key] = ((Number(item[key]) || 0) / total) * 100
-                })
-            }
-            return newItem
-        })
-    }, [data, variant, chartAreas])
+    onDiagnostics,
+}, ref) => {
+    // Series, variant flags, rows, zoom, domains and ticks
+    const {
+        containerRef: cardRef,
+        data,
+        chartConfig,
+        curveType,
+        isStacked,
+        shouldShowLegend,
+        shouldShowDots,
+        shouldShowActiveDot,
+        shouldUseGradient,
+        timeRangeConfig,
+        timeRangePresets,
+        currentTimeRange,
+        handleTimeRangeChange,
+        chartAreas,
+        isDualAxis,
+        axisByKey,
+        scaleNotice,
+        diagnostics,
+        showDiagnostics,
+        visibility,
+        sync,
+        chartStatus,
+        zoomState,
+        timeAxis,
+        zoomedData,
+        chartData,
+        streamingConfig,
+        yAxes,
+    } = useAreaChartModel({
+        data: sourceData,
+        chartConfig: sourceConfig,
+        transform,
+        variant,
+        areas,
+        xAxisKey,
+        xAxisType,
+        xAxisFormatter,
+        locale,
+        yAxisConfig,
+        rightYAxisConfig,
+        showLegend,
+        showDots,
+        showActiveDot,
+        useGradient,
+        missingValues,
+        zoom,
+        range,
+        onRangeChange,
+        timeRange,
+        hiddenSeries,
+        onHiddenSeriesChange,
+        syncId,
+        streaming,
+        downsample,
+        annotations,
+        status,
+        onDiagnostics,
+    })
+
+    // Default tick format: short dates on a date axis, first 3 characters otherwise
+    const resolvedXAxisFormatter = xAxisFormatter ?? ((value: string) => {
+        const date = timeRangeConfig ? toDate(value) : null
+        if (date) return date.toLocaleDateString(locale, { month: "short", day: "numeric" })
+        return typeof value === 'string' ? value.slice(0, 3) : String(value)
+    })
 
     // Render gradients if needed
     const renderGradients = () => {
@@ -196,18 +309,51 @@ export const AreaChartComponent = ({
         )
     }
 
+    const expandedFormatter = (value: number) => formatValue(value, EXPANDED_VALUE_FORMAT, { locale })
+
     // Render Y Axis
     const renderYAxis = () => {
-        if (yAxisConfig?.hide) return null
+        if (isDualAxis) {
+            const percentFormatter = variant === 'stacked-expanded' ? expandedFormatter : undefined
+
+            // Both axes are always mounted so series can reference their ids
+            return [
+                <YAxis
+                    key="left"
+                    yAxisId="left"
+                    hide={yAxisConfig?.hide}
+                    {...yAxes.left}
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={percentFormatter ?? resolveAxisFormatter(yAxisConfig, locale)}
+                />,
+                <YAxis
+                    key="right"
+                    yAxisId="right"
+                    orientation="right"
+                    hide={rightYAxisConfig?.hide}
+                    {...yAxes.right}
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={percentFormatter ?? resolveAxisFormatter(rightYAxisConfig, locale)}
+                />,
+            ]
+        }
 
         const tickFormatter = variant === 'stacked-expanded'
-            ? (value: number) => `${value}%`
-            : yAxisConfig?.tickFormatter
+            ? expandedFormatter
+            : resolveAxisFormatter(yAxisConfig, locale)
 
-        if (!tickFormatter && variant !== 'stacked-expanded') return null
+        // A hidden axis still carries the scale and the held domain while streaming
+        if (yAxisConfig?.hide || (!tickFormatter && variant !== 'stacked-expanded')) {
+            return <YAxis hide {...yAxes.left} />
+        }
 
         return (
             <YAxis
+                {...yAxes.left}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -216,22 +362,102 @@ export const AreaChartComponent = ({
         )
     }
 
+    // Export: PNG/SVG from the rendered chart, CSV from the rows currently shown
+    const exportColumns = useMemo(() => [xAxisKey, ...visibility.visibleKeys], [xAxisKey, visibility.visibleKeys])
+    const chartExport = useChartExport({
+        ref,
+        rootRef: cardRef,
+        rows: zoomedData,
+        columns: exportColumns,
+        timeKey: timeAxis.isTime ? xAxisKey : undefined,
+        exportable,
+        title,
+    })
+
+    // Screen-reader summary (min/max/trend per series) and data table
+    const summaryId = useId()
+    const chartSummary = useMemo(() => describeCartesianChart({
+        title,
+        config: chartConfig,
+        rows: zoomState.visibleData,
+        categoryKey: xAxisKey,
+        seriesKeys: visibility.visibleKeys,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    }), [title, chartConfig, zoomState.visibleData, xAxisKey, visibility.visibleKeys, timeAxis.formatLabel, locale])
+
+    // Footer headline, icon and color from footerContent.trend over the rows in view, a manual mainText still wins
+    const footer = useMemo(
+        () => resolveFooterTrend(footerContent, zoomState.visibleData, { chartConfig, locale, visibleKeys: visibility.visibleKeys }),
+        [footerContent, zoomState.visibleData, chartConfig, locale, visibility.visibleKeys]
+    )
+
+    // Keyboard: left/right/Home/End move between points, up/down switch series
+    const keyboard = useChartKeyboard({ length: zoomState.plottedData.length, seriesKeys: visibility.visibleKeys })
+    const focusedPoint = describeChartPoint({
+        config: chartConfig,
+        row: keyboard.activeIndex !== null ? zoomState.plottedData[keyboard.activeIndex] : undefined,
+        categoryKey: xAxisKey,
+        dataKey: keyboard.activeSeries,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    })
+
     return (
-        <Card className={`flex flex-col h-full ${className}`}>
-            {(title || description) && (
-                <CardHeader>
-                    {title && <CardTitle>{title}</CardTitle>}
-                    {description && <CardDescription>{description}</CardDescription>}
-                </CardHeader>
+        <ChartCard.Root ref={cardRef} className={className}>
+            {(title || description || zoomState.isZoomed || timeRangeConfig || chartExport.config) && (
+                <ChartCardHeader
+                    title={title}
+                    description={description}
+                    position={timeRangeConfig?.position}
+                    actions={(zoomState.isZoomed || timeRangeConfig || chartExport.config) && (
+                        <>
+                            {zoomState.isZoomed && (
+                                <Button variant="outline" size="sm" onClick={zoomState.reset}>
+                                    <RotateCcw className="h-4 w-4" />
+                                    Reset zoom
+                                </Button>
+                            )}
+                            {timeRangeConfig && (
+                                <ChartToggleGroup
+                                    options={timeRangePresets}
+                                    currentValue={currentTimeRange}
+                                    onChange={handleTimeRangeChange}
+                                    display={timeRangeConfig.display ?? 'select'}
+                                />
+                            )}
+                            {chartExport.config && <ChartExportMenu formats={chartExport.config.formats} onExport={chartExport.exportAs} />}
+                        </>
+                    )}
+                />
             )}
 
-            <CardContent className="flex-1">
-                <div className="w-full h-full flex items-center justify-center">
-                    <ChartContainer config={chartConfig} className="w-full">
+            <ChartCard.Content>
+                <ChartStatusContent
+                    status={chartStatus}
+                    shape="area"
+                    emptyState={emptyState}
+                    errorState={errorState}
+                    errorMessage={errorMessage}
+                    onRetry={onRetry}
+                    className="w-full h-full flex items-center justify-center"
+                >
+                    <ChartContainer
+                        config={chartConfig}
+                        locale={locale}
+                        role="figure"
+                        aria-label={title}
+                        aria-describedby={summaryId}
+                        {...keyboard.containerProps}
+                        className={`w-full ${zoomState.enabled ? 'select-none' : ''}`}
+                    >
                         <AreaChart
                             accessibilityLayer
-                            data={normalizedData}
+                            syncId={sync.syncId}
+                            syncMethod="value"
+                            data={chartData}
                             margin={margin}
+                            {...zoomState.chartHandlers}
                         >
                             {renderGradients()}
 
@@ -242,7 +468,8 @@ export const AreaChartComponent = ({
                                 tickLine={false}
                                 axisLine={false}
                                 tickMargin={8}
-                                tickFormatter={xAxisFormatter}
+                                tickFormatter={resolvedXAxisFormatter}
+                                {...timeAxis.axisProps}
                             />
 
                             {renderYAxis()}
@@ -250,15 +477,31 @@ export const AreaChartComponent = ({
                             {showTooltip && (
                                 <ChartTooltip
                                     cursor={false}
+                                    filterNull={false}
+                                    {...keyboard.tooltipProps}
                                     content={
                                         <ChartTooltipContent
                                             indicator={isStacked ? "dot" : "line"}
+                                            axisByKey={axisByKey}
+                                            labelFormatter={timeAxis.tooltipLabelFormatter}
+                                            activeKey={keyboard.activeSeries}
+                                            valueFormat={variant === 'stacked-expanded' ? EXPANDED_VALUE_FORMAT : undefined}
                                         />
                                     }
                                 />
                             )}
 
-                            {shouldShowLegend && <ChartLegend content={<ChartLegendContent />} />}
+                            {shouldShowLegend && (
+                                <ChartLegend
+                                    content={
+                                        <ChartLegendContent
+                                            hiddenKeys={visibility.hiddenSeries}
+                                            axisByKey={axisByKey}
+                                            onItemClick={visibility.toggleSeries}
+                                        />
+                                    }
+                                />
+                            )}
 
                             {chartAreas.map((area) => (
                                 <Area
@@ -269,6 +512,10 @@ export const AreaChartComponent = ({
                                     stroke={area.stroke || `var(--color-${area.dataKey})`}
                                     fillOpacity={area.fillOpacity ?? 0.4}
                                     stackId={area.stackId}
+                                    yAxisId={isDualAxis ? (area.yAxisId ?? 'left') : undefined}
+                                    hide={visibility.isHidden(area.dataKey)}
+                                    isAnimationActive={!streamingConfig}
+                                    connectNulls={missingValues !== 'gap'}
                                     dot={shouldShowDots ? {
                                         fill: area.stroke || `var(--color-${area.dataKey})`,
                                         r: 4,
@@ -279,27 +526,76 @@ export const AreaChartComponent = ({
                                     } : false}
                                 />
                             ))}
+
+                            {renderChartAnnotations(annotations, {
+                                dualAxis: isDualAxis,
+                                timeAxis: timeAxis.isTime,
+                                scales: { left: yAxisConfig?.scale, right: rightYAxisConfig?.scale },
+                            })}
+
+                            {zoomState.selection && (
+                                <ReferenceArea
+                                    yAxisId={isDualAxis ? 'left' : undefined}
+                                    x1={zoomState.selection.x1}
+                                    x2={zoomState.selection.x2}
+                                    fill="var(--muted-foreground)"
+                                    fillOpacity={0.15}
+                                    strokeOpacity={0}
+                                />
+                            )}
+
+                            {zoomState.showBrush && (
+                                <Brush
+                                    {...zoomState.brushProps}
+                                    tickFormatter={timeAxis.isTime ? timeAxis.tickFormatter : resolvedXAxisFormatter}
+                                />
+                            )}
                         </AreaChart>
                     </ChartContainer>
-                </div>
-            </CardContent>
-
-            {footerContent && (
-                <CardFooter className="flex-col items-start gap-2 text-sm">
-                    <div className={`flex gap-2 leading-none font-medium ${footerContent.trendingColor || ''}`}>
-                        {footerContent.mainText}
-                        {footerContent.showTrending && footerContent.trendingIcon}
-                    </div>
-                    {footerContent.subText && (
-                        <div className="text-muted-foreground leading-none">
-                            {footerContent.subText}
-                        </div>
-                    )}
-                </CardFooter>
+                </ChartStatusContent>
+
+                {chartStatus === 'ready' && scaleNotice && (
+                    <ChartNotice>{scaleNotice}</ChartNotice>
+                )}
+
+                {showDiagnostics && (
+                    <ChartDiagnosticsBadge diagnostics={diagnostics} />
+                )}
+
+                <span aria-live="polite" className="sr-only">
+                    {focusedPoint}
+                </span>
+
+                {chartStatus === 'ready' && (
+                    <ChartDataTable
+                        summaryId={summaryId}
+                        summary={chartSummary}
+                        caption={title}
+                        config={chartConfig}
+                        rows={zoomState.plottedData}
+                        categoryKey={xAxisKey}
+                        seriesKeys={visibility.visibleKeys}
+                        formatCategory={timeAxis.formatLabel}
+                        locale={locale}
+                        visible={showDataTable}
+                        className="mt-4"
+                    />
+                )}
+            </ChartCard.Content>
+
+            {footer && (
+                <ChartCard.Footer
+                    mainText={footer.mainText}
+                    icon={footer.showTrending && (footer.trendingIcon ?? <ChartTrendIcon direction={footer.trendDirection} />)}
+                    subText={footer.subText}
+                    mainClassName={footer.trendingColor}
+                />
             )}
-        </Card>
+        </ChartCard.Root>
     )
-}
+})
+
+AreaChartComponent.displayName = 'AreaChartComponent'
 
 // ========================================================================================
 // Area Chart Example
@@ -344,11 +640,12 @@ export const AreaChartExample = () => {
                 tickFormatter: (value) => String(value),
             }}
             footerContent={{
-                mainText: "Trending up by 5.2% this month",
                 subText: "January - June 2024",
-                showTrending: true,
-                trendingIcon: <TrendingUp className="h-4 w-4" />,
-                trendingColor: "text-emerald-600"
+                trend: {
+                    seriesKey: "desktop",
+                    compare: "previous-point",
+                    template: "Trending {direction} by {percent} this month",
+                },
             }}
         />
     )
@@ -1,33 +1,50 @@
 "use client"
 
-import { useMemo } from "react"
+import { forwardRef, useId, useMemo } from "react"
 import {
     Bar,
     BarChart,
+    Brush,
     CartesianGrid,
     Cell,
     LabelList,
+    ReferenceArea,
     XAxis,
     YAxis,
     Rectangle,
 } from "recharts"
-import {
-    Card,
-    CardContent,
-    CardDescription,
-    CardFooter,
-    CardHeader,
-    CardTitle,
-} from "../ui/card"
+import { ChartCard, ChartTrendIcon } from "../ui/chart-card"
+import { ChartCardHeader } from "../ui/chart-header"
 import {
     ChartContainer,
     ChartLegend,
     ChartLegendContent,
     ChartTooltip,
     ChartTooltipContent,
+    formatChartValue,
     type ChartConfig,
 } from "../ui/chart"
-import { TrendingUp } from "lucide-react"
+import { Button } from "../ui/button"
+import type { YAxisSide } from "../../lib/axis"
+import { ChartDataTable, describeCartesianChart, describeChartPoint } from "../ui/chart-data-table"
+import { ChartExportMenu } from "../ui/chart-export"
+import { ChartNotice, ChartStatusContent, type ChartStatus } from "../ui/chart-state"
+import { ChartDiagnosticsBadge } from "../ui/chart-diagnostics"
+import { renderChartAnnotations, type ChartAnnotation } from "../ui/chart-annotations"
+import type { ChartRange, ChartZoomConfig } from "../../hooks/use-chart-zoom"
+import type { XAxisType } from "../../hooks/use-time-axis"
+import { useChartExport, type ChartExportConfig, type ChartExportHandle } from "../../hooks/use-chart-export"
+import { useChartKeyboard } from "../../hooks/use-chart-keyboard"
+import { useBarChartModel } from "../../hooks/use-bar-chart-model"
+import type { MissingValueMode } from "../../lib/missing"
+import type { ChartDiagnostic } from "../../lib/diagnostics"
+import type { ChartTransform } from "../../lib/transform"
+import { resolveFooterTrend, type ChartFooterTrend } from "../../lib/trend"
+import type { DownsampleConfig, DownsampleMethod } from "../../lib/downsample"
+import { resolveAxisFormatter, type ValueFormat } from "../../lib/format"
+import type { AxisDomainOptions } from "../../lib/domain"
+import type { ChartDataRow } from "../../lib/date"
+import { RotateCcw } from "lucide-react"
 
 export type BarChartVariant =
     | 'default'
@@ -46,13 +63,26 @@ export interface BarConfig {
     radius?: number | [number, number, number, number]
     stackId?: string
     name?: string
+    yAxisId?: YAxisSide   // Vertical bars only
+}
+
+// Domain options (domain, padding, tickCount, includeZero, nice, scale) come from the shared axis engine;
+// bar axes stretch to 0 by default
+export interface BarYAxisConfig extends AxisDomainOptions {
+    tickFormatter?: (value: number) => string
+    format?: ValueFormat    // Shared format spec, used when no tickFormatter is given
+    hide?: boolean
 }
 
 export interface BarChartComponentProps {
     title?: string
     description?: string
-    data: Array<Record<string, string | number>>
+    data: ChartDataRow[]    // Date values are accepted, read as ISO strings
     chartConfig: ChartConfig
+    // Reshape long-format rows first: pivot, group, time buckets, cumulative, moving average, percent of total.
+    // Generated series get a config of their own, chartConfig entries override their labels and colors.
+    // Compared by reference like data: keep it at module level or in useMemo
+    transform?: ChartTransform
     className?: string
 
     variant?: BarChartVariant
@@ -60,13 +90,13 @@ export interface BarChartComponentProps {
     bars?: BarConfig[]
 
     xAxisKey?: string
+    xAxisType?: XAxisType   // 'time' parses ISO strings, Dates or epoch numbers (vertical bars only)
     xAxisFormatter?: (value: string) => string
-    yAxisConfig?: {
+    locale?: string
+    yAxisConfig?: BarYAxisConfig & {
         dataKey?: string // for horizontal layout
-        domain?: [number, number] | 'auto'
-        tickFormatter?: (value: number) => string
-        hide?: boolean
     }
+    rightYAxisConfig?: BarYAxisConfig  // Used when a bar sets yAxisId: 'right'
 
     // Features
     showGrid?: boolean
@@ -82,50 +112,75 @@ export interface BarChartComponentProps {
     margin?: { top?: number; right?: number; bottom?: number; left?: number }
     barRadius?: number | [number, number, number, number]
     barGap?: number
+
+    // Missing (non-numeric) values: 'gap' leaves the bar out (default), 'zero', 'interpolate' and 'carry-forward' fill it
+    missingValues?: MissingValueMode
     barCategoryGap?: string | number
 
     // Negative bar colors
     positiveColor?: string
     negativeColor?: string
 
+    // Zoom: Brush under the plot plus drag-to-select (vertical bars only)
+    zoom?: boolean | ChartZoomConfig
+    range?: ChartRange | null
+    onRangeChange?: (range: ChartRange | null) => void
+
+    // Series hidden from the legend (click to toggle, shift/alt-click to isolate)
+    hiddenSeries?: string[]
+    onHiddenSeriesChange?: (hiddenSeries: string[]) => void
+
+    // Hover cursor and tooltip follow other charts with the same syncId (set for all charts inside a ChartSyncProvider)
+    syncId?: string
+
+    // Large series: plot at most `maxPoints` (default the chart width in px) while keeping peaks, re-sampled on resize and zoom
+    downsample?: DownsampleMethod | DownsampleConfig
+
+    // Reference lines, shaded ranges and point callouts, always kept inside the y-domain
+    annotations?: ChartAnnotation[]
+
+    // Loading skeleton, empty and error slots; empty is also detected from the data
+    status?: ChartStatus
+    errorMessage?: React.ReactNode
+    emptyState?: React.ReactNode
+    errorState?: React.ReactNode
+    onRetry?: () => void
+
+    // Export menu in the header (PNG, SVG, CSV); the ref API works without it
+    exportable?: boolean | ChartExportConfig
+
+    // Data table under the chart; it's always rendered for screen readers, this makes it visible
+    showDataTable?: boolean
+
+    // Data problems (unknown keys, non-numeric values, duplicate categories): warned and badged in development
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void
+
     footerContent?: {
         mainText?: string
         subText?: string
         showTrending?: boolean
         trendingIcon?: React.ReactNode
         trendingColor?: string
+        // Compute the headline, icon and color from the data instead of hardcoding them
+        trend?: ChartFooterTrend
     }
 }
 
-const getDefaultRadius = (variant: BarChartVariant): number | [number, number, number, number] => {
-    switch (variant) {
-        case 'stacked':
-        case 'stacked-legend':
-            return 0
-        case 'horizontal':
-            return [0, 4, 4, 0]
-        default:
-            return 8
-    }
-}
-
-const getDefaultLayout = (variant: BarChartVariant): 'vertical' | 'horizontal' | undefined => {
-    // In Recharts: 'vertical' layout = horizontal bars (bars grow to the right)
-    // undefined/default = vertical bars (bars grow upward) 
-    return variant === 'horizontal' ? 'vertical' : undefined
-}
-
-export const BarChartComponent = ({
+export const BarChartComponent = forwardRef<ChartExportHandle, BarChartComponentProps>(({
     title,
     description,
-    data,
-    chartConfig,
+    data: sourceData,
+    chartConfig: sourceConfig,
+    transform,
     className = "",
     variant = 'default',
     bars,
     xAxisKey = "month",
-    xAxisFormatter = (value) => typeof value === 'string' ? value.slice(0, 3) : String(value),
+    xAxisType = 'category',
+    xAxisFormatter,
+    locale,
     yAxisConfig,
+    rightYAxisConfig,
     showGrid = true,
     showTooltip = true,
     showLegend,
@@ -135,39 +190,94 @@ export const BarChartComponent = ({
     tooltipNameKey,
     layout,
     margin = { left: 12, right: 12 },
+    missingValues = 'gap',
     barRadius,
     barGap,
     barCategoryGap,
     positiveColor = "var(--chart-1)",
     negativeColor = "var(--chart-2)",
+    zoom,
+    range,
+    onRangeChange,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    downsample,
+    annotations,
+    status,
+    errorMessage,
+    emptyState,
+    errorState,
+    onRetry,
+    exportable,
+    showDataTable = false,
     footerContent,
-}: BarChartComponentProps) => {
-
-    // Determine layout based on variant
-    // Note: In Recharts, layout="vertical" = horizontal bars (bars grow to the right)
-    const isHorizontalBars = variant === 'horizontal' || layout === 'vertical'
-    const chartLayout = layout ?? getDefaultLayout(variant)
-
-    // Determine radius
-    const defaultRadius = barRadius ?? getDefaultRadius(variant)
-
-    // Auto determine showLegend based on variant
-    const shouldShowLegend = showLegend ?? (variant === 'stacked-legend' || variant === 'multiple')
-
-    // Auto determine showLabels based on variant
-    const shouldShowLabels = showLabels ?? (variant === 'label')
-
-    // Auto-generate bars from chartConfig if not provided
-    const chartBars = useMemo(() => {
-        if (bars) return bars
-
-        return Object.keys(chartConfig).map((key, index) => ({
-            dataKey: key,
-            fill: chartConfig[key].color || `var(--chart-${index + 1})`,
-            radius: defaultRadius,
-            stackId: (variant === 'stacked' || variant === 'stacked-legend') ? 'stack' : undefined,
-        }))
-    }, [bars, chartConfig, variant, defaultRadius])
+    onDiagnostics,
+}, ref) => {
+
+    // Series, layout and variant flags, rows, zoom, domains and ticks
+    const {
+        containerRef: cardRef,
+        data,
+        chartConfig,
+        isHorizontalBars,
+        chartLayout,
+        defaultRadius,
+        shouldShowLegend,
+        shouldShowLabels,
+        chartBars,
+        isDualAxis,
+        axisByKey,
+        isTimeAxis,
+        scaleNotice,
+        diagnostics,
+        showDiagnostics,
+        visibility,
+        sync,
+        chartStatus,
+        zoomState,
+        timeAxis,
+        valueAxes,
+    } = useBarChartModel({
+        data: sourceData,
+        chartConfig: sourceConfig,
+        transform,
+        variant,
+        bars,
+        layout,
+        barRadius,
+        xAxisKey,
+        xAxisType,
+        xAxisFormatter,
+        locale,
+        yAxisConfig,
+        rightYAxisConfig,
+        showLegend,
+        showLabels,
+        missingValues,
+        zoom,
+        range,
+        onRangeChange,
+        hiddenSeries,
+        onHiddenSeriesChange,
+        syncId,
+        downsample,
+        annotations,
+        status,
+        onDiagnostics,
+    })
+    const getBarAxisId = (bar?: BarConfig) => isDualAxis ? (bar?.yAxisId ?? 'left') : undefined
+
+    const categoryFormatter = xAxisFormatter ?? ((value: string) => typeof value === 'string' ? value.slice(0, 3) : String(value))
+
+    // Value axis ticks: tickFormatter, else the axis format spec
+    const valueFormatter = resolveAxisFormatter(yAxisConfig, locale)
+    const rightValueFormatter = resolveAxisFormatter(rightYAxisConfig, locale)
+
+    // Bar labels: labelFormatter, else the series format, unit and precision from chartConfig
+    const getLabelFormatter = (dataKey: string) => {
+        return labelFormatter ?? ((value: number) => formatChartValue(value, chartConfig[dataKey], locale))
+    }
 
     // Render bars based on variant
     const renderBars = () => {
@@ -178,11 +288,12 @@ export const BarChartComponent = ({
                     <Bar
                         dataKey={chartBars[0]?.dataKey || 'value'}
                         radius={defaultRadius}
+                        yAxisId={getBarAxisId(chartBars[0])}
                     >
-                        {data.map((entry, index) => (
+                        {zoomState.plottedData.map((entry, index) => (
                             <Cell
                                 key={`cell-${index}`}
-                                fill={entry.fill as string || `var(--chart-${(index % 5) + 1})`}
+                                fill={entry.fill as string || `var(--chart-${((zoomState.plottedIndices[index] ?? index) % 5) + 1})`}
                             />
                         ))}
                     </Bar>
@@ -191,8 +302,8 @@ export const BarChartComponent = ({
             case 'negative':
                 // Negative: Different colors for positive/negative values
                 return (
-                    <Bar dataKey={chartBars[0]?.dataKey || 'value'} radius={defaultRadius}>
-                        {data.map((entry, index) => {
+                    <Bar dataKey={chartBars[0]?.dataKey || 'value'} radius={defaultRadius} yAxisId={getBarAxisId(chartBars[0])}>
+                        {zoomState.plottedData.map((entry, index) => {
                             const value = entry[chartBars[0]?.dataKey || 'value'] as number
                             return (
                                 <Cell
@@ -213,6 +324,8 @@ export const BarChartComponent = ({
                         fill={bar.fill || `var(--color-${bar.dataKey})`}
                         radius={bar.radius ?? defaultRadius}
                         stackId={bar.stackId}
+                        hide={visibility.isHidden(bar.dataKey)}
+                        yAxisId={getBarAxisId(bar)}
                         activeBar={({ ...props }) => (
                             <Rectangle
                                 {...props}
@@ -230,7 +343,7 @@ export const BarChartComponent = ({
                                 offset={8}
                                 className="fill-foreground"
                                 fontSize={12}
-                                formatter={labelFormatter}
+                                formatter={getLabelFormatter(bar.dataKey)}
                             />
                         )}
                     </Bar>
@@ -248,6 +361,8 @@ export const BarChartComponent = ({
                         fill={bar.fill || `var(--color-${bar.dataKey})`}
                         radius={bar.radius ?? defaultRadius}
                         stackId={bar.stackId}
+                        hide={visibility.isHidden(bar.dataKey)}
+                        yAxisId={getBarAxisId(bar)}
                     >
                         {shouldShowLabels && (
                             <LabelList
@@ -256,7 +371,7 @@ export const BarChartComponent = ({
                                 offset={8}
                                 className="fill-foreground"
                                 fontSize={12}
-                                formatter={labelFormatter}
+                                formatter={getLabelFormatter(bar.dataKey)}
                             />
                         )}
                     </Bar>
@@ -274,7 +389,8 @@ export const BarChartComponent = ({
                     axisLine={false}
                     tickMargin={8}
                     hide={yAxisConfig?.hide}
-                    tickFormatter={yAxisConfig?.tickFormatter}
+                    tickFormatter={valueFormatter}
+                    {...valueAxes.left}
                 />
             )
         }
@@ -285,7 +401,9 @@ export const BarChartComponent = ({
                 tickLine={false}
                 tickMargin={10}
                 axisLine={false}
-                tickFormatter={xAxisFormatter}
+                tickFormatter={categoryFormatter}
+                {...timeAxis.axisProps}
+                padding={isTimeAxis ? { left: 24, right: 24 } : undefined}
             />
         )
     }
@@ -300,44 +418,145 @@ export const BarChartComponent = ({
                     tickLine={false}
                     tickMargin={10}
                     axisLine={false}
-                    tickFormatter={xAxisFormatter}
+                    tickFormatter={categoryFormatter}
                 />
             )
         }
 
-        if (yAxisConfig?.hide !== true && (variant === 'negative' || yAxisConfig?.tickFormatter)) {
+        if (isDualAxis) {
+            // Both axes are always mounted so bars can reference their ids
+            return [
+                <YAxis
+                    key="left"
+                    yAxisId="left"
+                    hide={yAxisConfig?.hide}
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={valueFormatter}
+                    {...valueAxes.left}
+                />,
+                <YAxis
+                    key="right"
+                    yAxisId="right"
+                    orientation="right"
+                    hide={rightYAxisConfig?.hide}
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={rightValueFormatter}
+                    {...valueAxes.right}
+                />,
+            ]
+        }
+
+        if (yAxisConfig?.hide !== true && (variant === 'negative' || valueFormatter)) {
             return (
                 <YAxis
                     tickLine={false}
                     axisLine={false}
                     tickMargin={8}
-                    tickFormatter={yAxisConfig?.tickFormatter}
+                    tickFormatter={valueFormatter}
+                    {...valueAxes.left}
                 />
             )
         }
 
-        return null
+        // A hidden axis still carries the scale and domain
+        return <YAxis hide {...valueAxes.left} />
     }
 
+    // Export: PNG/SVG from the rendered chart, CSV from the rows currently shown
+    const categoryKey = isHorizontalBars ? (yAxisConfig?.dataKey || xAxisKey) : xAxisKey
+    const exportColumns = useMemo(() => [categoryKey, ...visibility.visibleKeys], [categoryKey, visibility.visibleKeys])
+    const chartExport = useChartExport({
+        ref,
+        rootRef: cardRef,
+        rows: zoomState.visibleData,
+        columns: exportColumns,
+        timeKey: isTimeAxis ? xAxisKey : undefined,
+        exportable,
+        title,
+    })
+
+    // Screen-reader summary (min/max/trend per series) and data table
+    const summaryId = useId()
+    const chartSummary = useMemo(() => describeCartesianChart({
+        title,
+        config: chartConfig,
+        rows: zoomState.visibleData,
+        categoryKey: categoryKey,
+        seriesKeys: visibility.visibleKeys,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    }), [title, chartConfig, zoomState.visibleData, categoryKey, visibility.visibleKeys, timeAxis.formatLabel, locale])
+
+    // Footer headline, icon and color from footerContent.trend over the rows in view, a manual mainText still wins
+    const footer = useMemo(
+        () => resolveFooterTrend(footerContent, zoomState.visibleData, { chartConfig, locale, visibleKeys: visibility.visibleKeys }),
+        [footerContent, zoomState.visibleData, chartConfig, locale, visibility.visibleKeys]
+    )
+
+    // Keyboard: left/right/Home/End move between points, up/down switch series
+    const keyboard = useChartKeyboard({ length: zoomState.plottedData.length, seriesKeys: visibility.visibleKeys })
+    const focusedPoint = describeChartPoint({
+        config: chartConfig,
+        row: keyboard.activeIndex !== null ? zoomState.plottedData[keyboard.activeIndex] : undefined,
+        categoryKey: categoryKey,
+        dataKey: keyboard.activeSeries,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    })
+
     return (
-        <Card className={`flex flex-col h-full ${className}`}>
-            {(title || description) && (
-                <CardHeader>
-                    {title && <CardTitle>{title}</CardTitle>}
-                    {description && <CardDescription>{description}</CardDescription>}
-                </CardHeader>
+        <ChartCard.Root ref={cardRef} className={className}>
+            {(title || description || zoomState.isZoomed || chartExport.config) && (
+                <ChartCardHeader
+                    title={title}
+                    description={description}
+                    actions={(zoomState.isZoomed || chartExport.config) && (
+                        <>
+                            {zoomState.isZoomed && (
+                                <Button variant="outline" size="sm" onClick={zoomState.reset}>
+                                    <RotateCcw className="h-4 w-4" />
+                                    Reset zoom
+                                </Button>
+                            )}
+                            {chartExport.config && <ChartExportMenu formats={chartExport.config.formats} onExport={chartExport.exportAs} />}
+                        </>
+                    )}
+                />
             )}
 
-            <CardContent className="flex-1">
-                <div className="w-full h-full flex items-center justify-center">
-                    <ChartContainer config={chartConfig} className="w-full">
+            <ChartCard.Content>
+                <ChartStatusContent
+                    status={chartStatus}
+                    shape="bar"
+                    emptyState={emptyState}
+                    errorState={errorState}
+                    errorMessage={errorMessage}
+                    onRetry={onRetry}
+                    className="w-full h-full flex items-center justify-center"
+                >
+                    <ChartContainer
+                        config={chartConfig}
+                        locale={locale}
+                        role="figure"
+                        aria-label={title}
+                        aria-describedby={summaryId}
+                        {...keyboard.containerProps}
+                        className={`w-full ${zoomState.enabled ? 'select-none' : ''}`}
+                    >
                         <BarChart
                             accessibilityLayer
-                            data={data}
+                            syncId={sync.syncId}
+                            syncMethod="value"
+                            data={zoomState.chartData}
                             layout={chartLayout}
                             margin={margin}
                             barGap={barGap}
                             barCategoryGap={barCategoryGap}
+                            {...zoomState.chartHandlers}
                         >
                             {showGrid && <CartesianGrid vertical={!isHorizontalBars} horizontal={isHorizontalBars} />}
 
@@ -347,40 +566,105 @@ export const BarChartComponent = ({
                             {showTooltip && (
                                 <ChartTooltip
                                     cursor={false}
+                                    filterNull={false}
+                                    {...keyboard.tooltipProps}
                                     content={
                                         <ChartTooltipContent
                                             hideLabel={variant === 'mixed' || chartBars.length === 1}
                                             indicator={variant === 'mixed' ? 'dot' : 'line'}
                                             nameKey={variant === 'mixed' ? tooltipNameKey : undefined}
+                                            axisByKey={axisByKey}
+                                            labelFormatter={timeAxis.tooltipLabelFormatter}
+                                            activeKey={keyboard.activeSeries}
                                         />
                                     }
                                 />
                             )}
 
-                            {shouldShowLegend && <ChartLegend content={<ChartLegendContent />} />}
+                            {shouldShowLegend && (
+                                <ChartLegend
+                                    content={
+                                        <ChartLegendContent
+                                            hiddenKeys={visibility.hiddenSeries}
+                                            axisByKey={axisByKey}
+                                            onItemClick={visibility.toggleSeries}
+                                        />
+                                    }
+                                />
+                            )}
 
                             {renderBars()}
+
+                            {renderChartAnnotations(annotations, {
+                                swapAxes: isHorizontalBars,
+                                dualAxis: isDualAxis,
+                                timeAxis: timeAxis.isTime,
+                                scales: { left: yAxisConfig?.scale, right: rightYAxisConfig?.scale },
+                            })}
+
+                            {zoomState.selection && (
+                                <ReferenceArea
+                                    yAxisId={isDualAxis ? 'left' : undefined}
+                                    x1={zoomState.selection.x1}
+                                    x2={zoomState.selection.x2}
+                                    fill="var(--muted-foreground)"
+                                    fillOpacity={0.15}
+                                    strokeOpacity={0}
+                                />
+                            )}
+
+                            {zoomState.showBrush && (
+                                <Brush
+                                    {...zoomState.brushProps}
+                                    tickFormatter={isTimeAxis ? timeAxis.tickFormatter : categoryFormatter}
+                                />
+                            )}
                         </BarChart>
                     </ChartContainer>
-                </div>
-            </CardContent>
-
-            {footerContent && (
-                <CardFooter className="flex-col items-start gap-2 text-sm">
-                    <div className={`flex gap-2 leading-none font-medium ${footerContent.trendingColor || ''}`}>
-                        {footerContent.mainText}
-                        {footerContent.showTrending && footerContent.trendingIcon}
-                    </div>
-                    {footerContent.subText && (
-                        <div className="text-muted-foreground leading-none">
-                            {footerContent.subText}
-                        </div>
-                    )}
-                </CardFooter>
+                </ChartStatusContent>
+
+                {chartStatus === 'ready' && scaleNotice && (
+                    <ChartNotice>{scaleNotice}</ChartNotice>
+                )}
+
+                {showDiagnostics && (
+                    <ChartDiagnosticsBadge diagnostics={diagnostics} />
+                )}
+
+                <span aria-live="polite" className="sr-only">
+                    {focusedPoint}
+                </span>
+
+                {chartStatus === 'ready' && (
+                    <ChartDataTable
+                        summaryId={summaryId}
+                        summary={chartSummary}
+                        caption={title}
+                        config={chartConfig}
+                        rows={zoomState.plottedData}
+                        categoryKey={categoryKey}
+                        seriesKeys={visibility.visibleKeys}
+                        formatCategory={timeAxis.formatLabel}
+                        locale={locale}
+                        visible={showDataTable}
+                        className="mt-4"
+                    />
+                )}
+            </ChartCard.Content>
+
+            {footer && (
+                <ChartCard.Footer
+                    mainText={footer.mainText}
+                    icon={footer.showTrending && (footer.trendingIcon ?? <ChartTrendIcon direction={footer.trendDirection} />)}
+                    subText={footer.subText}
+                    mainClassName={footer.trendingColor}
+                />
             )}
-        </Card>
+        </ChartCard.Root>
     )
-}
+})
+
+BarChartComponent.displayName = 'BarChartComponent'
 
 // ========================================================================================
 // Bar Chart Example
@@ -407,8 +691,9 @@ export const BarChartExample = () => {
             color: "var(--chart-1)",
         },
         revenue: {
-            label: "Revenue ($)",
+            label: "Revenue",
             color: "var(--chart-2)",
+            format: { type: "currency", currency: "USD", maximumFractionDigits: 0 },
         },
     } satisfies ChartConfig
 
@@ -431,6 +716,7 @@ export const BarChartExample = () => {
                     dataKey: "revenue",
                     fill: "var(--chart-2)",
                     radius: [4, 4, 0, 0],
+                    yAxisId: "right",
                 },
             ]}
             showGrid={true}
@@ -442,13 +728,17 @@ export const BarChartExample = () => {
                     return value.toString()
                 }
             }}
+            rightYAxisConfig={{
+                tickFormatter: (value) => `$${(value / 1000).toFixed(0)}K`
+            }}
             margin={{ top: 20, right: 30, bottom: 5, left: 20 }}
             footerContent={{
-                mainText: "Trending up by 12.5% this period",
                 subText: `Showing monthly performance metrics for 2024`,
-                showTrending: true,
-                trendingIcon: <TrendingUp className="h-4 w-4" />,
-                trendingColor: "text-emerald-600"
+                trend: {
+                    seriesKey: "revenue",
+                    compare: "first-last",
+                    template: "Revenue {direction} by {percent} this period",
+                },
             }}
         />
     )
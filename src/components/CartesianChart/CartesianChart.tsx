@@ -0,0 +1,197 @@
+"use client"
+
+import React from "react"
+import {
+    Area,
+    Bar,
+    CartesianGrid,
+    ComposedChart,
+    Line,
+    XAxis,
+    YAxis,
+    type AreaProps,
+    type BarProps,
+    type CartesianGridProps,
+    type LineProps,
+    type XAxisProps,
+    type YAxisProps,
+} from "recharts"
+import {
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+    type ChartConfig,
+} from "../ui/chart"
+import { ChartCard } from "../ui/chart-card"
+import { TrendingUp } from "lucide-react"
+
+export interface CartesianChartRootProps extends Omit<React.ComponentProps<"div">, 'children'> {
+    data: Array<Record<string, string | number | null>>
+    config: ChartConfig
+    locale?: string
+    layout?: 'horizontal' | 'vertical'  // 'vertical' lays bars out horizontally, as in Recharts
+    margin?: { top?: number; right?: number; bottom?: number; left?: number }
+    syncId?: string
+    children: React.ReactNode
+}
+
+export type CartesianTooltipProps = Omit<React.ComponentProps<typeof ChartTooltip>, 'ref'>
+    & Pick<React.ComponentProps<typeof ChartTooltipContent>, 'indicator' | 'hideLabel' | 'hideIndicator' | 'nameKey' | 'labelKey'>
+
+export type CartesianLegendProps = Omit<React.ComponentProps<typeof ChartLegend>, 'ref'>
+    & Pick<React.ComponentProps<typeof ChartLegendContent>, 'hiddenKeys' | 'onItemClick' | 'nameKey' | 'hideIcon'>
+
+// Parts are placeholders: Recharts only draws its own element types, so Root swaps each
+// part for the Recharts element with the package's styling defaults
+const CartesianArea = (_props: Omit<AreaProps, 'ref'>) => null
+const CartesianBar = (_props: Omit<BarProps, 'ref'>) => null
+const CartesianLine = (_props: Omit<LineProps, 'ref'>) => null
+const CartesianXAxis = (_props: XAxisProps) => null
+const CartesianYAxis = (_props: YAxisProps) => null
+const CartesianGridPart = (_props: CartesianGridProps) => null
+const CartesianTooltip = (_props: CartesianTooltipProps) => null
+const CartesianLegend = (_props: CartesianLegendProps) => null
+
+//todo: ==== Series color from chartConfig, through the --color-<key> variable ChartContainer sets ====
+const seriesColor = (dataKey: unknown) => `var(--color-${String(dataKey)})`
+
+//todo: ==== Narrow an element to one part, with that part's props ====
+const isPart = <P,>(element: React.ReactElement, part: (props: P) => null): element is React.ReactElement<P> => {
+    return element.type === part
+}
+
+//todo: ==== Swap one part for its Recharts element; anything else (ReferenceLine, Brush...) passes through ====
+// Only direct children of Root and children of fragments are read: a part inside another component
+// renders nothing, since Recharts never sees it
+const renderPart = (child: React.ReactNode): React.ReactNode => {
+    if (!React.isValidElement<{ children?: React.ReactNode }>(child)) return child
+
+    if (child.type === React.Fragment) {
+        return React.Children.map(child.props.children, renderPart)
+    }
+    if (isPart(child, CartesianArea)) {
+        const { props } = child
+        return <Area type="monotone" fill={seriesColor(props.dataKey)} stroke={seriesColor(props.dataKey)} fillOpacity={0.4} {...props} />
+    }
+    if (isPart(child, CartesianBar)) {
+        const { props } = child
+        return <Bar fill={seriesColor(props.dataKey)} radius={8} {...props} />
+    }
+    if (isPart(child, CartesianLine)) {
+        const { props } = child
+        return <Line type="monotone" stroke={seriesColor(props.dataKey)} strokeWidth={2} dot={false} {...props} />
+    }
+    if (isPart(child, CartesianXAxis)) {
+        return <XAxis tickLine={false} axisLine={false} tickMargin={8} {...child.props} />
+    }
+    if (isPart(child, CartesianYAxis)) {
+        return <YAxis tickLine={false} axisLine={false} tickMargin={8} {...child.props} />
+    }
+    if (isPart(child, CartesianGridPart)) {
+        return <CartesianGrid vertical={false} {...child.props} />
+    }
+    if (isPart(child, CartesianTooltip)) {
+        const { indicator, hideLabel, hideIndicator, nameKey, labelKey, ...rest } = child.props
+        return (
+            <ChartTooltip
+                cursor={false}
+                filterNull={false}
+                content={<ChartTooltipContent indicator={indicator} hideLabel={hideLabel} hideIndicator={hideIndicator} nameKey={nameKey} labelKey={labelKey} />}
+                {...rest}
+            />
+        )
+    }
+    if (isPart(child, CartesianLegend)) {
+        const { hiddenKeys, onItemClick, nameKey, hideIcon, ...rest } = child.props
+        return (
+            <ChartLegend
+                content={<ChartLegendContent hiddenKeys={hiddenKeys} onItemClick={onItemClick} nameKey={nameKey} hideIcon={hideIcon} />}
+                {...rest}
+            />
+        )
+    }
+    return child
+}
+
+// Chart surface with ChartContainer's context (useChart works in custom tooltip or legend content);
+// areas, bars and lines can be mixed freely
+const CartesianChartRoot = ({
+    data,
+    config,
+    locale,
+    layout,
+    margin = { left: 12, right: 12 },
+    syncId,
+    className,
+    children,
+    ...props
+}: CartesianChartRootProps) => {
+    return (
+        <ChartContainer config={config} locale={locale} role="figure" className={className} {...props}>
+            <ComposedChart
+                accessibilityLayer
+                data={data}
+                layout={layout}
+                margin={margin}
+                syncId={syncId}
+                syncMethod="value"
+            >
+                {React.Children.map(children, renderPart)}
+            </ComposedChart>
+        </ChartContainer>
+    )
+}
+
+export const CartesianChart = {
+    Root: CartesianChartRoot,
+    Area: CartesianArea,
+    Bar: CartesianBar,
+    Line: CartesianLine,
+    XAxis: CartesianXAxis,
+    YAxis: CartesianYAxis,
+    Grid: CartesianGridPart,
+    Tooltip: CartesianTooltip,
+    Legend: CartesianLegend,
+}
+
+// ========================================================================================
+// Cartesian Chart Example
+// ========================================================================================
+export const CartesianChartExample = () => {
+    const data = [
+        { month: "January", visitors: 186, signups: 80 },
+        { month: "February", visitors: 305, signups: 200 },
+        { month: "March", visitors: 237, signups: 120 },
+        { month: "April", visitors: 73, signups: 190 },
+        { month: "May", visitors: 209, signups: 130 },
+        { month: "June", visitors: 214, signups: 140 },
+    ]
+
+    const chartConfig = {
+        visitors: { label: "Visitors", color: "var(--chart-1)" },
+        signups: { label: "Sign-ups", color: "var(--chart-2)" },
+    } satisfies ChartConfig
+
+    return (
+        <ChartCard.Root>
+            <ChartCard.Header title="Visitors and sign-ups" description="January - June 2024" />
+            <ChartCard.Content>
+                <CartesianChart.Root data={data} config={chartConfig} aria-label="Visitors and sign-ups">
+                    <CartesianChart.Grid />
+                    <CartesianChart.XAxis dataKey="month" tickFormatter={(value: string) => value.slice(0, 3)} />
+                    <CartesianChart.Bar dataKey="visitors" />
+                    <CartesianChart.Line dataKey="signups" />
+                    <CartesianChart.Tooltip indicator="line" />
+                    <CartesianChart.Legend />
+                </CartesianChart.Root>
+            </ChartCard.Content>
+            <ChartCard.Footer
+                mainText="Sign-ups up 7.7% since May"
+                icon={<TrendingUp className="h-4 w-4" />}
+                subText="Showing visitors and sign-ups for the last 6 months"
+            />
+        </ChartCard.Root>
+    )
+}
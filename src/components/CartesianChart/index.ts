@@ -0,0 +1 @@
+export * from "./CartesianChart"
\ No newline at end of file
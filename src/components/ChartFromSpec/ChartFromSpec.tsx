@@ -0,0 +1,224 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef, useState } from "react"
+import { TrendingDown, TrendingUp } from "lucide-react"
+import { AreaChartComponent } from "../AreaChart/AreaChart"
+import { BarChartComponent } from "../BarChart/BarChart"
+import { LineChartComponent } from "../LineChart/LineChart"
+import { PieChartComponent } from "../PieChart/PieChart"
+import { RadialChartShapeComponent } from "../RadialShapeChart/RadialShapeChart"
+import { ChartCard } from "../ui/chart-card"
+import { ChartStatusContent, type ChartSkeletonShape } from "../ui/chart-state"
+import { formatValue } from "../../lib/format"
+import {
+    ChartSpecError,
+    formatChartSpecIssues,
+    validateChartSpec,
+    type ChartSpec,
+    type ChartSpecFooter,
+    type ChartSpecIssue,
+    type ChartSpecXAxisFormat,
+} from "../../lib/spec"
+
+export interface ChartFromSpecProps {
+    spec: unknown           // Parsed JSON, validated before rendering
+    className?: string
+    onInvalid?: (issues: ChartSpecIssue[]) => void
+}
+
+//todo: ==== X-axis tick formatter from its spec ====
+const toXAxisFormatter = (format: ChartSpecXAxisFormat | undefined, locale?: string) => {
+    if (!format) return undefined
+    if (typeof format === 'object' && format.type === 'truncate') {
+        const { length } = format
+        return (value: string) => String(value).slice(0, length)
+    }
+
+    // Numeric categories only, text categories are left as they are
+    return (value: string) => {
+        const number = Number(value)
+        return value !== '' && isFinite(number) ? formatValue(number, format, { locale }) : value
+    }
+}
+
+//todo: ==== Footer with the trend direction turned into its icon; a computed trend picks its own ====
+const toFooterContent = (footer: ChartSpecFooter | undefined) => {
+    if (!footer) return undefined
+
+    const { trendingIcon, ...rest } = footer
+    if (!trendingIcon && rest.trend) return rest
+
+    return {
+        ...rest,
+        trendingIcon: trendingIcon === 'down'
+            ? <TrendingDown className="h-4 w-4" />
+            : <TrendingUp className="h-4 w-4" />,
+    }
+}
+
+//todo: ==== Chart element for a spec, throws a ChartSpecError listing every problem when it's invalid ====
+export const renderChartSpec = (spec: unknown, { className }: { className?: string } = {}): React.ReactElement => {
+    const validation = validateChartSpec(spec)
+    if (!validation.valid) throw new ChartSpecError(validation.issues)
+
+    return renderValidSpec(validation.spec, className)
+}
+
+const renderValidSpec = (spec: ChartSpec, className?: string) => {
+    const shared = {
+        title: spec.title,
+        description: spec.description,
+        chartConfig: spec.chartConfig,
+        locale: spec.locale,
+        showDataTable: spec.showDataTable,
+        footerContent: toFooterContent(spec.footer),
+        className,
+    }
+
+    switch (spec.type) {
+        case 'area': {
+            const { version: _version, type: _type, chartConfig: _chartConfig, footer: _footer, series, xAxisFormat, yAxis, rightYAxis, ...props } = spec
+            return (
+                <AreaChartComponent
+                    {...props}
+                    {...shared}
+                    areas={series}
+                    xAxisFormatter={toXAxisFormatter(xAxisFormat, spec.locale)}
+                    yAxisConfig={yAxis}
+                    rightYAxisConfig={rightYAxis}
+                />
+            )
+        }
+        case 'bar': {
+            const { version: _version, type: _type, chartConfig: _chartConfig, footer: _footer, series, xAxisFormat, yAxis, rightYAxis, ...props } = spec
+            return (
+                <BarChartComponent
+                    {...props}
+                    {...shared}
+                    bars={series}
+                    xAxisFormatter={toXAxisFormatter(xAxisFormat, spec.locale)}
+                    yAxisConfig={yAxis}
+                    rightYAxisConfig={rightYAxis}
+                />
+            )
+        }
+        case 'line': {
+            const { version: _version, type: _type, chartConfig: _chartConfig, footer: _footer, series, xAxisFormat, yAxis, rightYAxis, ...props } = spec
+            return (
+                <LineChartComponent
+                    {...props}
+                    {...shared}
+                    lines={series}
+                    xAxisFormatter={toXAxisFormatter(xAxisFormat, spec.locale)}
+                    yAxisConfig={yAxis}
+                    rightYAxisConfig={rightYAxis}
+                />
+            )
+        }
+        case 'pie': {
+            const { version: _version, type: _type, chartConfig: _chartConfig, footer: _footer, ...props } = spec
+            return <PieChartComponent {...props} {...shared} />
+        }
+        case 'radial': {
+            const { version: _version, type: _type, chartConfig: _chartConfig, footer: _footer, ...props } = spec
+            return <RadialChartShapeComponent {...props} {...shared} />
+        }
+    }
+}
+
+const SKELETON_SHAPES: ChartSkeletonShape[] = ['area', 'bar', 'line', 'pie', 'radial']
+
+//todo: ==== Skeleton shape and title of a spec that failed validation, read as far as they're usable ====
+const readInvalidSpec = (spec: unknown) => {
+    const type = typeof spec === 'object' && spec !== null && 'type' in spec ? spec.type : undefined
+    const title = typeof spec === 'object' && spec !== null && 'title' in spec ? spec.title : undefined
+
+    return {
+        shape: SKELETON_SHAPES.find(shape => shape === type) ?? 'bar',
+        title: typeof title === 'string' ? title : undefined,
+    }
+}
+
+// Renders a spec from the backend; an invalid spec shows the error card with the first problems instead of throwing
+export const ChartFromSpec = ({ spec, className, onInvalid }: ChartFromSpecProps) => {
+    const validation = useMemo(() => validateChartSpec(spec), [spec])
+
+    // Latest handler, so an inline onInvalid doesn't re-fire on every render
+    const onInvalidRef = useRef(onInvalid)
+    onInvalidRef.current = onInvalid
+
+    useEffect(() => {
+        if (!validation.valid) onInvalidRef.current?.(validation.issues)
+    }, [validation])
+
+    if (validation.valid) return renderValidSpec(validation.spec, className)
+
+    const { shape, title } = readInvalidSpec(spec)
+
+    return (
+        <ChartCard.Root className={className}>
+            <ChartCard.Header title={title} />
+            <ChartCard.Content>
+                <ChartStatusContent
+                    status="error"
+                    shape={shape}
+                    errorMessage={
+                        <ul className="font-mono text-xs">
+                            {validation.issues.slice(0, 3).map((issue, index) => (
+                                <li key={index}>{issue.path || 'spec'}: {issue.message}</li>
+                            ))}
+                            {validation.issues.length > 3 && <li>+{validation.issues.length - 3} more</li>}
+                        </ul>
+                    }
+                >
+                    {null}
+                </ChartStatusContent>
+            </ChartCard.Content>
+        </ChartCard.Root>
+    )
+}
+
+// ========================================================================================
+// Chart From Spec Example
+// ========================================================================================
+// As received from the backend; kept at module level so the spec (and its validation) is stable across renders
+const EXAMPLE_SPEC = {
+    version: 1,
+    type: "bar",
+    variant: "multiple",
+    title: "Bar Chart - Multiple",
+    description: "January - June 2024",
+    data: [
+        { month: "January", desktop: 186, mobile: 80 },
+        { month: "February", desktop: 305, mobile: 200 },
+        { month: "March", desktop: 237, mobile: 120 },
+        { month: "April", desktop: 73, mobile: 190 },
+        { month: "May", desktop: 209, mobile: 130 },
+        { month: "June", desktop: 214, mobile: 140 },
+    ],
+    chartConfig: {
+        desktop: { label: "Desktop", color: "var(--chart-1)" },
+        mobile: { label: "Mobile", color: "var(--chart-2)" },
+    },
+    xAxisFormat: { type: "truncate", length: 3 },
+    yAxis: { format: "compact" },
+    annotations: [{ type: "horizontal-line", y: 200, label: "Target" }],
+    footer: {
+        mainText: "Trending up by 5.2% this month",
+        subText: "Showing total visitors for the last 6 months",
+        showTrending: true,
+        trendingIcon: "up",
+    },
+}
+
+export const ChartFromSpecExample = () => {
+    // Keep the problems for an error report instead of logging them
+    const [issues, setIssues] = useState<ChartSpecIssue[]>([])
+
+    return (
+        <div className="grid gap-2">
+            <ChartFromSpec spec={EXAMPLE_SPEC} onInvalid={setIssues} />
+            {issues.length > 0 && <pre className="text-muted-foreground text-xs">{formatChartSpecIssues(issues)}</pre>}
+        </div>
+    )
+}
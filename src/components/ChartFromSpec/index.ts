@@ -0,0 +1 @@
+export * from "./ChartFromSpec"
\ No newline at end of file
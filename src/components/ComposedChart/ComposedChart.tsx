@@ -0,0 +1,534 @@
+"use client"
+
+import { forwardRef, useId, useMemo, useRef } from "react"
+import {
+    Area,
+    Bar,
+    CartesianGrid,
+    ComposedChart,
+    Line,
+    XAxis,
+    YAxis,
+} from "recharts"
+import { ChartCard, ChartTrendIcon } from "../ui/chart-card"
+import { ChartCardHeader } from "../ui/chart-header"
+import {
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+    type ChartConfig,
+} from "../ui/chart"
+import { ChartDataTable, describeCartesianChart, describeChartPoint } from "../ui/chart-data-table"
+import { ChartExportMenu } from "../ui/chart-export"
+import { ChartStatusContent, resolveChartStatus, type ChartStatus } from "../ui/chart-state"
+import { ChartDiagnosticsBadge } from "../ui/chart-diagnostics"
+import { getAnnotationValues, renderChartAnnotations, type ChartAnnotation } from "../ui/chart-annotations"
+import { useChartSync } from "../../hooks/use-chart-sync"
+import { useSeriesVisibility } from "../../hooks/use-series-visibility"
+import { useTimeAxis, type XAxisType } from "../../hooks/use-time-axis"
+import { useChartExport, type ChartExportConfig, type ChartExportHandle } from "../../hooks/use-chart-export"
+import { useChartKeyboard } from "../../hooks/use-chart-keyboard"
+import { useDownsample } from "../../hooks/use-downsample"
+import { shouldDiagnoseChart, useChartDiagnostics } from "../../hooks/use-chart-diagnostics"
+import { normalizeDateValues, toTimeSeries, type ChartDataRow } from "../../lib/date"
+import { resolveMissingValues, type MissingValueMode } from "../../lib/missing"
+import { downsampleRows, type DownsampleConfig, type DownsampleMethod } from "../../lib/downsample"
+import { resolveAxisFormatter, type ValueFormat } from "../../lib/format"
+import { getSeriesAxisMap, hasRightYAxis, type YAxisSide } from "../../lib/axis"
+import { getSeriesExtent, resolveAxisDomain, type AxisDomainOptions } from "../../lib/domain"
+import { diagnoseCartesianData, type ChartDiagnostic } from "../../lib/diagnostics"
+import { resolveFooterTrend, type ChartFooterTrend } from "../../lib/trend"
+import type { AreaConfig } from "../AreaChart/AreaChart"
+import type { BarConfig } from "../BarChart/BarChart"
+import type { LineConfig } from "../LineChart/LineChart"
+
+export type ComposedSeries =
+    | ({ kind: 'bar' } & BarConfig)
+    | ({ kind: 'line' } & LineConfig)
+    | ({ kind: 'area' } & AreaConfig)
+
+// Domain options (domain, padding, tickCount, includeZero, nice) come from the shared axis engine;
+// composed axes stretch to 0 by default
+export interface ComposedYAxisConfig extends Omit<AxisDomainOptions, 'scale'> {
+    tickFormatter?: (value: number) => string
+    format?: ValueFormat    // Shared format spec, used when no tickFormatter is given
+    hide?: boolean
+}
+
+export interface ComposedChartComponentProps {
+    title?: string
+    description?: string
+    data: ChartDataRow[]    // Date values are accepted, read as ISO strings
+    chartConfig: ChartConfig
+    className?: string
+
+    // Drawn in order, so put lines last to keep them above bars and areas
+    series: ComposedSeries[]
+
+    xAxisKey?: string
+    xAxisType?: XAxisType   // 'time' parses ISO strings, Dates or epoch numbers and spaces points by time
+    xAxisFormatter?: (value: string) => string
+    locale?: string
+    yAxisConfig?: ComposedYAxisConfig
+    rightYAxisConfig?: ComposedYAxisConfig  // Used when a series sets yAxisId: 'right'
+
+    showGrid?: boolean
+    showTooltip?: boolean
+    showLegend?: boolean
+
+    margin?: { top?: number; right?: number; bottom?: number; left?: number }
+    barRadius?: number | [number, number, number, number]
+    barGap?: number
+
+    // Missing (non-numeric) values: 'gap' breaks lines and areas (default), 'zero', 'interpolate' and 'carry-forward' fill them
+    missingValues?: MissingValueMode
+    barCategoryGap?: string | number
+
+    // Series hidden from the legend (click to toggle, shift/alt-click to isolate)
+    hiddenSeries?: string[]
+    onHiddenSeriesChange?: (hiddenSeries: string[]) => void
+
+    // Hover cursor and tooltip follow other charts with the same syncId (set for all charts inside a ChartSyncProvider)
+    syncId?: string
+
+    // Large series: plot at most `maxPoints` (default the chart width in px) while keeping peaks, re-sampled on resize
+    downsample?: DownsampleMethod | DownsampleConfig
+
+    // Reference lines, shaded ranges and point callouts, always kept inside the y-domain
+    annotations?: ChartAnnotation[]
+
+    // Loading skeleton, empty and error slots; empty is also detected from the data
+    status?: ChartStatus
+    errorMessage?: React.ReactNode
+    emptyState?: React.ReactNode
+    errorState?: React.ReactNode
+    onRetry?: () => void
+
+    // Export menu in the header (PNG, SVG, CSV); the ref API works without it
+    exportable?: boolean | ChartExportConfig
+
+    // Data table under the chart; it's always rendered for screen readers, this makes it visible
+    showDataTable?: boolean
+
+    // Data problems (unknown keys, non-numeric values, duplicate categories): warned and badged in development
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void
+
+    footerContent?: {
+        mainText?: string
+        subText?: string
+        showTrending?: boolean
+        trendingIcon?: React.ReactNode
+        trendingColor?: string
+        // Compute the headline, icon and color from the data instead of hardcoding them
+        trend?: ChartFooterTrend
+    }
+}
+
+export const ComposedChartComponent = forwardRef<ChartExportHandle, ComposedChartComponentProps>(({
+    title,
+    description,
+    data: sourceData,
+    chartConfig,
+    className = "",
+    series,
+    xAxisKey = "month",
+    xAxisType = 'category',
+    xAxisFormatter,
+    locale,
+    yAxisConfig,
+    rightYAxisConfig,
+    showGrid = true,
+    showTooltip = true,
+    showLegend = true,
+    margin = { left: 12, right: 12 },
+    missingValues = 'gap',
+    barRadius = 4,
+    barGap,
+    barCategoryGap,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    downsample,
+    annotations,
+    status,
+    errorMessage,
+    emptyState,
+    errorState,
+    onRetry,
+    exportable,
+    showDataTable = false,
+    footerContent,
+    onDiagnostics,
+}, ref) => {
+    // Dual Y axis when any series is plotted against the right axis
+    const isDualAxis = hasRightYAxis(series)
+    const axisByKey = useMemo(() => isDualAxis ? getSeriesAxisMap(series) : undefined, [isDualAxis, series])
+    const getAxisId = (item: ComposedSeries) => isDualAxis ? (item.yAxisId ?? 'left') : undefined
+
+    // Date values read as ISO strings, like the rows of the other charts
+    const data = useMemo(() => normalizeDateValues(sourceData), [sourceData])
+
+    // Time axis: dates become epoch numbers so points are spaced proportionally,
+    // then missing values are resolved once for rendering, stacking and tooltips
+    const seriesData = useMemo(() => {
+        const rows = xAxisType === 'time' ? toTimeSeries(data, xAxisKey) : data
+        return resolveMissingValues(rows, series.map(item => item.dataKey), missingValues, xAxisKey)
+    }, [data, xAxisType, xAxisKey, series, missingValues])
+
+    // Loading, empty and error states replace the plot, header and footer stay
+    const chartStatus = resolveChartStatus(status, seriesData.length === 0)
+
+    const timeAxis = useTimeAxis({ data: seriesData, xAxisKey, xAxisType, locale, xAxisFormatter })
+
+    // Cursor and hidden series shared with a ChartSyncProvider
+    const sync = useChartSync({ syncId, data: seriesData, xAxisKey, hiddenSeries, onHiddenSeriesChange })
+
+    // Series visibility toggled from the legend
+    const seriesKeys = useMemo(() => series.map(item => item.dataKey), [series])
+    const visibility = useSeriesVisibility({ seriesKeys, hiddenSeries: sync.hiddenSeries, onHiddenSeriesChange: sync.onHiddenSeriesChange })
+
+    // Raw data checked against the series: console warning and badge in development, onDiagnostics in every build
+    const diagnosticsEnabled = shouldDiagnoseChart(onDiagnostics)
+    const diagnostics = useMemo(() => diagnosticsEnabled
+        ? diagnoseCartesianData(data, { seriesKeys, categoryKey: xAxisKey, checkDuplicates: xAxisType !== 'time', checkDates: xAxisType === 'time' })
+        : [], [diagnosticsEnabled, data, seriesKeys, xAxisKey, xAxisType])
+    const { showBadge: showDiagnostics } = useChartDiagnostics('ComposedChartComponent', diagnostics, onDiagnostics)
+
+    // Rows handed to Recharts, downsampled to the chart width if enabled
+    const cardRef = useRef<HTMLDivElement>(null)
+    const sampling = useDownsample({ downsample, containerRef: cardRef })
+    const plottedData = useMemo(() => {
+        if (!sampling) return seriesData
+        return downsampleRows(seriesData, { ...sampling, xAxisKey, dataKeys: visibility.visibleKeys })
+    }, [sampling, seriesData, xAxisKey, visibility.visibleKeys])
+
+    // Y-axis domain and ticks from the visible series (stack totals included, annotations on their axis)
+    const yAxes = useMemo(() => {
+        const visibleSeries = series.filter(item => !visibility.isHidden(item.dataKey))
+
+        const resolveAxis = (side: YAxisSide, config: ComposedYAxisConfig | undefined, extraValues: number[] = []) => {
+            const sideSeries = visibleSeries.filter(item => !isDualAxis || (item.yAxisId ?? 'left') === side)
+            const extent = getSeriesExtent(seriesData, sideSeries, extraValues)
+            return resolveAxisDomain(extent, { ...config, includeZero: config?.includeZero ?? true })
+        }
+
+        return {
+            left: resolveAxis('left', yAxisConfig, getAnnotationValues(annotations)),
+            right: resolveAxis('right', rightYAxisConfig, getAnnotationValues(annotations, 'right')),
+        }
+    }, [series, visibility.isHidden, isDualAxis, seriesData, yAxisConfig, rightYAxisConfig, annotations])
+
+    // Render one series according to its kind, colors fall back to chartConfig
+    const renderSeries = (item: ComposedSeries, index: number) => {
+        const color = chartConfig[item.dataKey]?.color || `var(--chart-${index + 1})`
+
+        switch (item.kind) {
+            case 'bar':
+                return (
+                    <Bar
+                        key={item.dataKey}
+                        dataKey={item.dataKey}
+                        fill={item.fill || color}
+                        radius={item.radius ?? barRadius}
+                        stackId={item.stackId}
+                        hide={visibility.isHidden(item.dataKey)}
+                        yAxisId={getAxisId(item)}
+                    />
+                )
+
+            case 'area':
+                return (
+                    <Area
+                        key={item.dataKey}
+                        dataKey={item.dataKey}
+                        type={item.type || 'monotone'}
+                        fill={item.fill || color}
+                        stroke={item.stroke || color}
+                        fillOpacity={item.fillOpacity ?? 0.4}
+                        stackId={item.stackId}
+                        hide={visibility.isHidden(item.dataKey)}
+                        yAxisId={getAxisId(item)}
+                        connectNulls={missingValues !== 'gap'}
+                    />
+                )
+
+            case 'line':
+                return (
+                    <Line
+                        key={item.dataKey}
+                        dataKey={item.dataKey}
+                        type={item.type || 'monotone'}
+                        stroke={item.stroke || color}
+                        strokeWidth={item.strokeWidth || 2}
+                        dot={item.dot || false}
+                        hide={visibility.isHidden(item.dataKey)}
+                        yAxisId={getAxisId(item)}
+                        connectNulls={missingValues !== 'gap'}
+                    />
+                )
+        }
+    }
+
+    // Render Y Axis
+    const renderYAxis = () => {
+        if (isDualAxis) {
+            // Both axes are always mounted so series can reference their ids
+            return [
+                <YAxis
+                    key="left"
+                    yAxisId="left"
+                    hide={yAxisConfig?.hide}
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={resolveAxisFormatter(yAxisConfig, locale)}
+                    domain={yAxes.left.domain}
+                    ticks={yAxes.left.ticks}
+                />,
+                <YAxis
+                    key="right"
+                    yAxisId="right"
+                    orientation="right"
+                    hide={rightYAxisConfig?.hide}
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tickFormatter={resolveAxisFormatter(rightYAxisConfig, locale)}
+                    domain={yAxes.right.domain}
+                    ticks={yAxes.right.ticks}
+                />,
+            ]
+        }
+
+        // A hidden axis still carries the domain
+        if (yAxisConfig?.hide) return <YAxis hide domain={yAxes.left.domain} />
+
+        return (
+            <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={resolveAxisFormatter(yAxisConfig, locale)}
+                domain={yAxes.left.domain}
+                ticks={yAxes.left.ticks}
+            />
+        )
+    }
+
+    // Export: PNG/SVG from the rendered chart, CSV from the rows currently shown
+    const exportColumns = useMemo(() => [xAxisKey, ...visibility.visibleKeys], [xAxisKey, visibility.visibleKeys])
+    const chartExport = useChartExport({
+        ref,
+        rootRef: cardRef,
+        rows: seriesData,
+        columns: exportColumns,
+        timeKey: timeAxis.isTime ? xAxisKey : undefined,
+        exportable,
+        title,
+    })
+
+    // Screen-reader summary (min/max/trend per series) and data table
+    const summaryId = useId()
+    const chartSummary = useMemo(() => describeCartesianChart({
+        title,
+        config: chartConfig,
+        rows: seriesData,
+        categoryKey: xAxisKey,
+        seriesKeys: visibility.visibleKeys,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    }), [title, chartConfig, seriesData, xAxisKey, visibility.visibleKeys, timeAxis.formatLabel, locale])
+
+    // Footer headline, icon and color from footerContent.trend over the plotted rows, a manual mainText still wins
+    const footer = useMemo(
+        () => resolveFooterTrend(footerContent, seriesData, { chartConfig, locale, visibleKeys: visibility.visibleKeys }),
+        [footerContent, seriesData, chartConfig, locale, visibility.visibleKeys]
+    )
+
+    // Keyboard: left/right/Home/End move between points, up/down switch series
+    const keyboard = useChartKeyboard({ length: plottedData.length, seriesKeys: visibility.visibleKeys })
+    const focusedPoint = describeChartPoint({
+        config: chartConfig,
+        row: keyboard.activeIndex !== null ? plottedData[keyboard.activeIndex] : undefined,
+        categoryKey: xAxisKey,
+        dataKey: keyboard.activeSeries,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    })
+
+    return (
+        <ChartCard.Root ref={cardRef} className={className}>
+            {(title || description || chartExport.config) && (
+                <ChartCardHeader
+                    title={title}
+                    description={description}
+                    actions={chartExport.config && <ChartExportMenu formats={chartExport.config.formats} onExport={chartExport.exportAs} />}
+                />
+            )}
+
+            <ChartCard.Content>
+                <ChartStatusContent
+                    status={chartStatus}
+                    shape={series.some(item => item.kind === 'bar') ? 'bar' : 'line'}
+                    emptyState={emptyState}
+                    errorState={errorState}
+                    errorMessage={errorMessage}
+                    onRetry={onRetry}
+                    className="w-full h-full flex items-center justify-center"
+                >
+                    <ChartContainer
+                        config={chartConfig}
+                        locale={locale}
+                        role="figure"
+                        aria-label={title}
+                        aria-describedby={summaryId}
+                        {...keyboard.containerProps}
+                        className="w-full"
+                    >
+                        <ComposedChart
+                            accessibilityLayer
+                            syncId={sync.syncId}
+                            syncMethod="value"
+                            data={plottedData}
+                            margin={margin}
+                            barGap={barGap}
+                            barCategoryGap={barCategoryGap}
+                        >
+                            {showGrid && <CartesianGrid vertical={false} />}
+
+                            <XAxis
+                                dataKey={xAxisKey}
+                                tickLine={false}
+                                axisLine={false}
+                                tickMargin={8}
+                                tickFormatter={xAxisFormatter ?? ((value: string) => typeof value === 'string' ? value.slice(0, 3) : String(value))}
+                                {...timeAxis.axisProps}
+                                padding={timeAxis.isTime && series.some(item => item.kind === 'bar') ? { left: 24, right: 24 } : undefined}
+                            />
+
+                            {renderYAxis()}
+
+                            {showTooltip && (
+                                <ChartTooltip
+                                    cursor={false}
+                                    filterNull={false}
+                                    {...keyboard.tooltipProps}
+                                    content={
+                                        <ChartTooltipContent
+                                            indicator="line"
+                                            axisByKey={axisByKey}
+                                            labelFormatter={timeAxis.tooltipLabelFormatter}
+                                            activeKey={keyboard.activeSeries}
+                                        />
+                                    }
+                                />
+                            )}
+
+                            {showLegend && (
+                                <ChartLegend
+                                    content={
+                                        <ChartLegendContent
+                                            hiddenKeys={visibility.hiddenSeries}
+                                            axisByKey={axisByKey}
+                                            onItemClick={visibility.toggleSeries}
+                                        />
+                                    }
+                                />
+                            )}
+
+                            {series.map(renderSeries)}
+
+                            {renderChartAnnotations(annotations, { dualAxis: isDualAxis, timeAxis: timeAxis.isTime })}
+                        </ComposedChart>
+                    </ChartContainer>
+                </ChartStatusContent>
+
+                {showDiagnostics && (
+                    <ChartDiagnosticsBadge diagnostics={diagnostics} />
+                )}
+
+                <span aria-live="polite" className="sr-only">
+                    {focusedPoint}
+                </span>
+
+                {chartStatus === 'ready' && (
+                    <ChartDataTable
+                        summaryId={summaryId}
+                        summary={chartSummary}
+                        caption={title}
+                        config={chartConfig}
+                        rows={plottedData}
+                        categoryKey={xAxisKey}
+                        seriesKeys={visibility.visibleKeys}
+                        formatCategory={timeAxis.formatLabel}
+                        locale={locale}
+                        visible={showDataTable}
+                        className="mt-4"
+                    />
+                )}
+            </ChartCard.Content>
+
+            {footer && (
+                <ChartCard.Footer
+                    mainText={footer.mainText}
+                    icon={footer.showTrending && (footer.trendingIcon ?? <ChartTrendIcon direction={footer.trendDirection} />)}
+                    subText={footer.subText}
+                    mainClassName={footer.trendingColor}
+                />
+            )}
+        </ChartCard.Root>
+    )
+})
+
+ComposedChartComponent.displayName = 'ComposedChartComponent'
+
+// ========================================================================================
+// Composed Chart Example
+// ========================================================================================
+export const ComposedChartExample = () => {
+    const chartData = [
+        { month: "January", orders: 1860, conversionRate: 3.2 },
+        { month: "February", orders: 3050, conversionRate: 3.8 },
+        { month: "March", orders: 2370, conversionRate: 3.5 },
+        { month: "April", orders: 2730, conversionRate: 4.1 },
+        { month: "May", orders: 2090, conversionRate: 3.6 },
+        { month: "June", orders: 3140, conversionRate: 4.4 },
+    ]
+
+    const chartConfig = {
+        orders: {
+            label: "Orders",
+            color: "var(--chart-1)",
+        },
+        conversionRate: {
+            label: "Conversion (%)",
+            color: "var(--chart-2)",
+        },
+    } satisfies ChartConfig
+
+    return (
+        <ComposedChartComponent
+            title="Orders & Conversion"
+            description="Order volume with conversion rate, January - June 2024"
+            data={chartData}
+            chartConfig={chartConfig}
+            series={[
+                { kind: "bar", dataKey: "orders" },
+                { kind: "line", dataKey: "conversionRate", yAxisId: "right", dot: true },
+            ]}
+            rightYAxisConfig={{
+                tickFormatter: (value) => `${value}%`,
+            }}
+            footerContent={{
+                subText: "January - June 2024",
+                trend: {
+                    seriesKey: "conversionRate",
+                    compare: "previous-point",
+                    template: "Conversion {direction} by {delta} pts this month",
+                },
+            }}
+        />
+    )
+}
@@ -0,0 +1 @@
+export * from "./ComposedChart";
\ No newline at end of file
@@ -1,54 +1,85 @@
 "use client"
 
-import React, { useMemo, useState } from "react"
-import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import React, { forwardRef, useId, useMemo, useState } from "react"
+import { Brush, CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts"
 
 import {
     Card,
     CardContent,
-    CardDescription,
     CardFooter,
-    CardHeader,
-    CardTitle,
 } from "../ui/card"
 import {
     ChartConfig,
     ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
     ChartTooltip,
     ChartTooltipContent,
 } from "../ui/chart"
 import { Button } from "../ui/button"
-import { Calendar, CalendarDays, GitCommitVertical } from "lucide-react"
+import type { YAxisSide } from "../../lib/axis"
+import { ChartDataTable, describeCartesianChart, describeChartPoint } from "../ui/chart-data-table"
+import { ChartExportMenu } from "../ui/chart-export"
+import { ChartNotice, ChartStatusContent, type ChartStatus } from "../ui/chart-state"
+import { ChartDiagnosticsBadge } from "../ui/chart-diagnostics"
+import { renderChartAnnotations, type ChartAnnotation } from "../ui/chart-annotations"
+import { ChartTrendIcon } from "../ui/chart-card"
+import { ChartCardHeader, ChartToggleGroup, type ChartToggleOptions } from "../ui/chart-header"
+import type { ChartRange, ChartZoomConfig } from "../../hooks/use-chart-zoom"
+import type { XAxisType } from "../../hooks/use-time-axis"
+import { useChartExport, type ChartExportConfig, type ChartExportHandle } from "../../hooks/use-chart-export"
+import { useChartKeyboard } from "../../hooks/use-chart-keyboard"
+import type { ChartStreamingConfig } from "../../hooks/use-chart-stream"
+import { useLineChartModel } from "../../hooks/use-line-chart-model"
+import type { MissingValueMode } from "../../lib/missing"
+import type { ChartDiagnostic } from "../../lib/diagnostics"
+import type { ChartTransform } from "../../lib/transform"
+import { resolveFooterTrend, type ChartFooterTrend } from "../../lib/trend"
+import type { DownsampleConfig, DownsampleMethod } from "../../lib/downsample"
+import type { AxisDomainOptions } from "../../lib/domain"
+import type { ValueFormat } from "../../lib/format"
+import type { ChartDataRow } from "../../lib/date"
+import { Calendar, CalendarDays, GitCommitVertical, RotateCcw } from "lucide-react"
+
+// Domain options (domain, padding, tickCount, includeZero, nice, scale) come from the shared axis engine;
+// line axes default to 15% padding and don't stretch to 0
+export interface LineYAxisConfig extends AxisDomainOptions {
+    format?: ValueFormat    // Shared format spec, e.g. 'compact' or { type: 'currency', currency: 'EUR' }
+    formatType?: 'auto' | 'full' | 'compact' | 'currency' | 'percentage' // Kept for compatibility, prefer format
+    customFormatter?: (value: number) => string
+    tickFormatter?: (value: number) => string // Deprecated, use customFormatter instead
+    hide?: boolean
+}
 
-interface ToggleOption {
-    value: string
-    label: string
-    icon?: React.ReactNode
+export interface LineConfig {
+    dataKey: string
+    stroke?: string
+    strokeWidth?: number
+    type?: "monotone" | "linear" | "step" | "stepBefore" | "stepAfter"
+    dot?: boolean
+    yAxisId?: YAxisSide
 }
 
-interface LineChartComponentProps {
+export interface LineChartComponentProps {
     title?: string
     description?: string
-    data: Array<Record<string, string | number>>
+    data: ChartDataRow[]    // Date values are accepted, read as ISO strings
     chartConfig: ChartConfig
+    // Reshape long-format rows first: pivot, group, time buckets, cumulative, moving average, percent of total.
+    // Generated series get a config of their own, chartConfig entries override their labels and colors.
+    // Compared by reference like data: keep it at module level or in useMemo
+    transform?: ChartTransform
     xAxisKey?: string
-    yAxisConfig?: {
-        domain?: [number, number] | "auto"
-        padding?: number
-        tickCount?: number
-        formatType?: 'auto' | 'full' | 'compact' | 'currency' | 'percentage'
-        customFormatter?: (value: number) => string
-        tickFormatter?: (value: number) => string // Deprecated, use customFormatter instead
-    }
-    lines?: Array<{
-        dataKey: string
-        stroke?: string
-        strokeWidth?: number
-        type?: "monotone" | "linear" | "step" | "stepBefore" | "stepAfter"
-        dot?: boolean
-    }>
+    xAxisType?: XAxisType   // 'time' parses ISO strings, Dates or epoch numbers and spaces points by time
+    xAxisFormatter?: (value: string) => string
+    locale?: string
+    yAxisConfig?: LineYAxisConfig
+    rightYAxisConfig?: LineYAxisConfig // Used when a line sets yAxisId: 'right'
+    lines?: LineConfig[]
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     dot?: boolean | ((props: any) => React.ReactElement)
+    // Missing (non-numeric) values: 'gap' breaks the line (default), 'zero', 'interpolate' and 'carry-forward' fill it
+    missingValues?: MissingValueMode
     margin?: {
         top?: number
         right?: number
@@ -61,213 +92,229 @@ interface LineChartComponentProps {
         showTrending?: boolean
         trendingIcon?: React.ReactNode
         trendingColor?: string
+        // Compute the headline, icon and color from the data instead of hardcoding them
+        trend?: ChartFooterTrend
     }
-    toggleOptions?: {
-        options: ToggleOption[]
-        currentValue: string
-        onChange: (value: string) => void
-        position?: "header-right" | "header-left"
-    }
+    toggleOptions?: ChartToggleOptions
+    // Zoom: Brush under the plot plus drag-to-select, the y-domain re-fits to the visible slice
+    zoom?: boolean | ChartZoomConfig
+    range?: ChartRange | null
+    onRangeChange?: (range: ChartRange | null) => void
+    // Legend, shown by default with more than one line (click to toggle, shift/alt-click to isolate)
+    showLegend?: boolean
+    hiddenSeries?: string[]
+    onHiddenSeriesChange?: (hiddenSeries: string[]) => void
+    // Hover cursor and tooltip follow other charts with the same syncId (set for all charts inside a ChartSyncProvider)
+    syncId?: string
+    // Live data fed from useChartStream: no re-animation per update (new points appear without an x-axis slide),
+    // the y-domain moves with hysteresis
+    streaming?: boolean | ChartStreamingConfig
+    // Large series: plot at most `maxPoints` (default the chart width in px) while keeping peaks, re-sampled on resize and zoom
+    downsample?: DownsampleMethod | DownsampleConfig
+    // Reference lines, shaded ranges and point callouts, always kept inside the y-domain
+    annotations?: ChartAnnotation[]
+
+    // Loading skeleton, empty and error slots; empty is also detected from the data
+    status?: ChartStatus
+    errorMessage?: React.ReactNode
+    emptyState?: React.ReactNode
+    errorState?: React.ReactNode
+    onRetry?: () => void
+
+    // Export menu in the header (PNG, SVG, CSV); the ref API works without it
+    exportable?: boolean | ChartExportConfig
+
+    // Data table under the chart; it's always rendered for screen readers, this makes it visible
+    showDataTable?: boolean
+    // Data problems (unknown keys, non-numeric values, duplicate categories): warned and badged in development
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void
     className?: string
 }
 
-//todo: ==== Format the y-axis value based on the format type ====
-const formatYAxisValue = (value: number, formatType = 'auto') => {
-    switch (formatType) {
-        case 'percentage':
-            return `${value}%`
-
-        case 'currency':
-            return new Intl.NumberFormat('en-US', {
-                style: 'currency',
-                currency: 'USD',
-                maximumFractionDigits: 0,
-            }).format(value)
-
-        case 'full':
-            return value.toLocaleString()
-
-        case 'compact':
-        case 'auto':
-        default:
-            if (value >= 1000000000) {
-                return `${(value / 1000000000).toFixed(value % 1000000000 === 0 ? 0 : 1)}B`
-            }
-            if (value >= 1000000) {
-                return `${(value / 1000000).toFixed(value % 1000000 === 0 ? 0 : 1)}M`
-            }
-            if (value >= 1000) {
-                return `${(value / 1000).toFixed(value % 1000 === 0 ? 0 : 1)}K`
-            }
-            return value.toString()
-    }
-}
-
-//todo: ==== Divide y-axí ticks based-on nice step size ====
-function getNiceStepSize(range: number, targetSteps: number): number {
-    const rawStep = range / targetSteps
-    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)))
-    const normalizedStep = rawStep / magnitude
-
-    // Choose nice step sizes: 1, 2, 5, 10
-    const niceStep = normalizedStep <= 1 ? 1
-        : normalizedStep <= 2 ? 2
-            : normalizedStep <= 5 ? 5
-                : 10
-
-    return niceStep * magnitude
-}
-
-const calculateYAxisTicks = (domain: [number, number], tickCount: number, dataMax: number) => {
-    const [min, max] = domain
-
-    if (tickCount <= 1) return [min]
-
-    const step = getNiceStepSize(max - min, tickCount - 1)
-    const niceMin = Math.floor(min / step) * step
-
-    // Generate ticks
-    const ticks: number[] = []
-    let currentTick = niceMin
-
-    while (currentTick <= max && ticks.length < tickCount * 2) {
-        if (currentTick >= min) ticks.push(currentTick)
-        currentTick += step
-    }
-
-    // Auto-add extra tick if data max is too close to last tick
-    const lastTick = ticks[ticks.length - 1]
-    if (dataMax - lastTick > 0 && dataMax - lastTick < step * 0.1) {
-        ticks.push(lastTick + step)
-    }
-
-    return ticks
-}
-
-//todo: ==== Calculate the y-axis domain with padding ====
-const calculateNiceYDomain = (data: Array<Record<string, string | number>>, dataKeys: string[], padding = 0.1) => {
-    let min = Infinity, max = -Infinity
-
-    data.forEach(item => {
-        dataKeys.forEach(key => {
-            const value = typeof item[key] === 'number' ? item[key] as number : 0
-            min = Math.min(min, value)
-            max = Math.max(max, value)
-        })
-    })
-
-    if (min === Infinity || max === -Infinity) return [0, 100]
-
-    const range = max - min
-    const paddedMin = Math.max(0, min - (range * padding))
-    const paddedMax = max + (range * padding)
-
-    // Smart rounding based on magnitude
-    const getRoundingFactor = (value: number) =>
-        value <= 100 ? 10
-            : value <= 1000 ? 100
-                : value <= 10000 ? 500
-                    : value <= 50000 ? 1000
-                        : 5000
-
-    const niceMin = Math.floor(paddedMin / getRoundingFactor(paddedMin)) * getRoundingFactor(paddedMin)
-    const niceMax = Math.ceil(paddedMax / getRoundingFactor(paddedMax)) * getRoundingFactor(paddedMax)
-
-    return [niceMin, niceMax]
-}
-
-export function LineChartComponent({
+export const LineChartComponent = forwardRef<ChartExportHandle, LineChartComponentProps>(function LineChartComponent({
     title = "Line Chart - Multiple",
     description = "January - June 2024",
-    data,
-    chartConfig,
+    data: sourceData,
+    chartConfig: sourceConfig,
+    transform,
     xAxisKey = "month",
+    xAxisType = "category",
+    xAxisFormatter,
+    locale,
     yAxisConfig,
+    rightYAxisConfig,
     lines,
     dot = false,
+    missingValues = 'gap',
     margin = {
         left: 12,
         right: 12,
     },
     footerContent,
     toggleOptions,
+    zoom,
+    range,
+    onRangeChange,
+    showLegend,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    streaming,
+    downsample,
+    annotations,
+    status,
+    errorMessage,
+    emptyState,
+    errorState,
+    onRetry,
+    exportable,
+    showDataTable = false,
+    onDiagnostics,
     className
-}: LineChartComponentProps) {
-    // Auto-generate lines from chartConfig if not provided
-    const chartLines = lines || Object.keys(chartConfig).map(key => ({
-        dataKey: key,
-        stroke: chartConfig[key].color,
-        strokeWidth: 2,
-        type: "monotone" as const,
-        dot
-    }))
-
-    // Calculate Y-axis domain
-    const yDomain = useMemo(() => {
-        if (yAxisConfig?.domain && yAxisConfig.domain !== "auto") {
-            return yAxisConfig.domain
-        }
-
-        // Auto-calculate domain with padding
-        const dataKeys = chartLines.map(line => line.dataKey)
-        const padding = yAxisConfig?.padding || 0.15
-        return calculateNiceYDomain(data, dataKeys, padding)
-    }, [data, chartLines, yAxisConfig])
-
-    // Calculate Y-axis ticks for even spacing
-    const yAxisTicks = useMemo(() => {
-        const tickCount = yAxisConfig?.tickCount || 6
-        const dataKeys = chartLines.map(line => line.dataKey)
-
-        const dataMax = Math.max(...data.flatMap(item =>
-            dataKeys.map(key => typeof item[key] === 'number' ? item[key] as number : 0)
-        ))
-
-        return calculateYAxisTicks(yDomain as [number, number], tickCount, dataMax)
-    }, [yDomain, yAxisConfig, data, chartLines])
-
-    // Create Y-axis tick formatter
-    const yAxisTickFormatter = useMemo(() => {
-        return yAxisConfig?.customFormatter
-            || yAxisConfig?.tickFormatter
-            || ((value: number) => formatYAxisValue(value, yAxisConfig?.formatType))
-    }, [yAxisConfig])
+}, ref) {
+    // Series, rows, zoom, domains and ticks
+    const {
+        containerRef: cardRef,
+        data,
+        chartConfig,
+        chartLines,
+        scaleNotice,
+        diagnostics,
+        showDiagnostics,
+        visibility,
+        sync,
+        shouldShowLegend,
+        chartStatus,
+        zoomState,
+        timeAxis,
+        isDualAxis,
+        axisByKey,
+        streamingConfig,
+        leftAxis,
+        rightAxis,
+    } = useLineChartModel({
+        data: sourceData,
+        chartConfig: sourceConfig,
+        transform,
+        lines,
+        xAxisKey,
+        xAxisType,
+        xAxisFormatter,
+        locale,
+        yAxisConfig,
+        rightYAxisConfig,
+        missingValues,
+        zoom,
+        range,
+        onRangeChange,
+        showLegend,
+        hiddenSeries,
+        onHiddenSeriesChange,
+        syncId,
+        streaming,
+        downsample,
+        annotations,
+        status,
+        onDiagnostics,
+    })
 
-    return (
-        <Card className={className}>
-            <CardHeader>
-                <div className="flex items-center justify-between">
-                    <div className="space-y-1.5">
-                        <CardTitle>{title}</CardTitle>
-                        <CardDescription>{description}</CardDescription>
-                    </div>
+    // Tick labels follow the visible span in time mode
+    const xAxisTickFormatter = timeAxis.isTime
+        ? timeAxis.tickFormatter
+        : xAxisFormatter ?? ((value: string) => typeof value === "string" ? value.slice(0, 3) : String(value))
+
+    // Export: PNG/SVG from the rendered chart, CSV from the rows currently shown
+    const exportColumns = useMemo(() => [xAxisKey, ...visibility.visibleKeys], [xAxisKey, visibility.visibleKeys])
+    const chartExport = useChartExport({
+        ref,
+        rootRef: cardRef,
+        rows: zoomState.visibleData,
+        columns: exportColumns,
+        timeKey: timeAxis.isTime ? xAxisKey : undefined,
+        exportable,
+        title,
+    })
 
-                    {toggleOptions && (
-                        <div className="flex space-x-2">
-                            {toggleOptions.options.map((option) => (
-                                <Button
-                                    key={option.value}
-                                    variant={toggleOptions.currentValue === option.value ? "default" : "outline"}
-                                    size="sm"
-                                    onClick={() => toggleOptions.onChange(option.value)}
-                                    className="flex items-center gap-2"
-                                >
-                                    {option.icon}
-                                    {option.label}
-                                </Button>
-                            ))}
-                        </div>
-                    )}
-                </div>
-            </CardHeader>
+    // Screen-reader summary (min/max/trend per series) and data table
+    const summaryId = useId()
+    const chartSummary = useMemo(() => describeCartesianChart({
+        title,
+        config: chartConfig,
+        rows: zoomState.visibleData,
+        categoryKey: xAxisKey,
+        seriesKeys: visibility.visibleKeys,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    }), [title, chartConfig, zoomState.visibleData, xAxisKey, visibility.visibleKeys, timeAxis.formatLabel, locale])
+
+    // Footer headline, icon and color from footerContent.trend over the rows in view, a manual mainText still wins
+    const footer = useMemo(
+        () => resolveFooterTrend(footerContent, zoomState.visibleData, { chartConfig, locale, visibleKeys: visibility.visibleKeys }),
+        [footerContent, zoomState.visibleData, chartConfig, locale, visibility.visibleKeys]
+    )
+
+    // Keyboard: left/right/Home/End move between points, up/down switch series
+    const keyboard = useChartKeyboard({ length: zoomState.plottedData.length, seriesKeys: visibility.visibleKeys })
+    const focusedPoint = describeChartPoint({
+        config: chartConfig,
+        row: keyboard.activeIndex !== null ? zoomState.plottedData[keyboard.activeIndex] : undefined,
+        categoryKey: xAxisKey,
+        dataKey: keyboard.activeSeries,
+        formatCategory: timeAxis.formatLabel,
+        locale,
+    })
+
+    return (
+        <Card ref={cardRef} className={className}>
+            <ChartCardHeader
+                title={title}
+                description={description}
+                position={toggleOptions?.position}
+                actions={(toggleOptions || zoomState.isZoomed || chartExport.config) && (
+                    <>
+                        {zoomState.isZoomed && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={zoomState.reset}
+                                className="flex items-center gap-2"
+                            >
+                                <RotateCcw className="h-4 w-4" />
+                                Reset zoom
+                            </Button>
+                        )}
+                        {toggleOptions && <ChartToggleGroup {...toggleOptions} />}
+                        {chartExport.config && <ChartExportMenu formats={chartExport.config.formats} onExport={chartExport.exportAs} />}
+                    </>
+                )}
+            />
 
             <CardContent className="flex-1">
-                <div className="w-full h-full flex items-center justify-center">
-                    <ChartContainer config={chartConfig} className="w-full">
+                <ChartStatusContent
+                    status={chartStatus}
+                    shape="line"
+                    emptyState={emptyState}
+                    errorState={errorState}
+                    errorMessage={errorMessage}
+                    onRetry={onRetry}
+                    className="w-full h-full flex items-center justify-center"
+                >
+                    <ChartContainer
+                        config={chartConfig}
+                        locale={locale}
+                        role="figure"
+                        aria-label={title}
+                        aria-describedby={summaryId}
+                        {...keyboard.containerProps}
+                        className={`w-full ${zoomState.enabled ? 'select-none' : ''}`}
+                    >
                         <LineChart
                             accessibilityLayer
-                            data={data}
+                            syncId={sync.syncId}
+                            syncMethod="value"
+                            data={zoomState.chartData}
                             margin={margin}
+                            {...zoomState.chartHandlers}
                         >
                             <CartesianGrid vertical={false} />
                             <XAxis
@@ -275,17 +322,57 @@ export function LineChartComponent({
                                 tickLine={false}
                                 axisLine={false}
                                 tickMargin={8}
-                                tickFormatter={(value) => value.slice(0, 3)}
+                                tickFormatter={xAxisTickFormatter}
+                                {...timeAxis.axisProps}
                             />
                             <YAxis
-                                domain={yDomain}
-                                ticks={yAxisTicks}
+                                yAxisId={isDualAxis ? "left" : undefined}
+                                hide={yAxisConfig?.hide}
+                                scale={leftAxis.scale}
+                                domain={leftAxis.domain}
+                                ticks={leftAxis.ticks}
                                 tickLine={false}
                                 axisLine={false}
                                 tickMargin={8}
-                                tickFormatter={yAxisTickFormatter}
+                                tickFormatter={leftAxis.tickFormatter}
                             />
-                            <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                            {rightAxis && (
+                                <YAxis
+                                    yAxisId="right"
+                                    orientation="right"
+                                    hide={rightYAxisConfig?.hide}
+                                    scale={rightAxis.scale}
+                                    domain={rightAxis.domain}
+                                    ticks={rightAxis.ticks}
+                                    tickLine={false}
+                                    axisLine={false}
+                                    tickMargin={8}
+                                    tickFormatter={rightAxis.tickFormatter}
+                                />
+                            )}
+                            <ChartTooltip
+                                cursor={false}
+                                filterNull={false}
+                                {...keyboard.tooltipProps}
+                                content={
+                                    <ChartTooltipContent
+                                        axisByKey={isDualAxis ? axisByKey : undefined}
+                                        labelFormatter={timeAxis.tooltipLabelFormatter}
+                                        activeKey={keyboard.activeSeries}
+                                    />
+                                }
+                            />
+                            {shouldShowLegend && (
+                                <ChartLegend
+                                    content={
+                                        <ChartLegendContent
+                                            hiddenKeys={visibility.hiddenSeries}
+                                            axisByKey={isDualAxis ? axisByKey : undefined}
+                                            onItemClick={visibility.toggleSeries}
+                                        />
+                                    }
+                                />
+                            )}
                             {chartLines.map((line) => (
                                 <Line
                                     key={line.dataKey}
@@ -293,24 +380,80 @@ export function LineChartComponent({
                                     type={line.type || "monotone"}
                                     stroke={line.stroke}
                                     strokeWidth={line.strokeWidth || 2}
+                                    hide={visibility.isHidden(line.dataKey)}
+                                    yAxisId={isDualAxis ? (line.yAxisId ?? "left") : undefined}
                                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                                     dot={dot !== undefined ? (dot as any) : (line.dot || false)}
+                                    isAnimationActive={!streamingConfig}
+                                    connectNulls={missingValues !== 'gap'}
                                 />
                             ))}
+
+                            {renderChartAnnotations(annotations, {
+                                dualAxis: isDualAxis,
+                                timeAxis: timeAxis.isTime,
+                                scales: { left: yAxisConfig?.scale, right: rightYAxisConfig?.scale },
+                            })}
+
+                            {zoomState.selection && (
+                                <ReferenceArea
+                                    yAxisId={isDualAxis ? "left" : undefined}
+                                    x1={zoomState.selection.x1}
+                                    x2={zoomState.selection.x2}
+                                    fill="var(--muted-foreground)"
+                                    fillOpacity={0.15}
+                                    strokeOpacity={0}
+                                />
+                            )}
+
+                            {zoomState.showBrush && (
+                                <Brush
+                                    {...zoomState.brushProps}
+                                    tickFormatter={xAxisTickFormatter}
+                                />
+                            )}
                         </LineChart>
                     </ChartContainer>
-                </div>
+                </ChartStatusContent>
+
+                {chartStatus === 'ready' && scaleNotice && (
+                    <ChartNotice>{scaleNotice}</ChartNotice>
+                )}
+
+                {showDiagnostics && (
+                    <ChartDiagnosticsBadge diagnostics={diagnostics} />
+                )}
+
+                <span aria-live="polite" className="sr-only">
+                    {focusedPoint}
+                </span>
+
+                {chartStatus === 'ready' && (
+                    <ChartDataTable
+                        summaryId={summaryId}
+                        summary={chartSummary}
+                        caption={title}
+                        config={chartConfig}
+                        rows={zoomState.plottedData}
+                        categoryKey={xAxisKey}
+                        seriesKeys={visibility.visibleKeys}
+                        formatCategory={timeAxis.formatLabel}
+                        locale={locale}
+                        visible={showDataTable}
+                        className="mt-4"
+                    />
+                )}
             </CardContent>
 
-            {footerContent && (
+            {footer && (
                 <CardFooter>
                     <div className="flex w-full items-start gap-2 text-sm">
                         <div className="grid gap-2">
-                            <div className={`flex items-center gap-2 leading-none font-medium ${footerContent.trendingColor}`}>
-                                {footerContent.mainText} {footerContent.showTrending && footerContent.trendingIcon}
+                            <div className={`flex items-center gap-2 leading-none font-medium ${footer.trendingColor ?? ''}`}>
+                                {footer.mainText} {footer.showTrending && (footer.trendingIcon ?? <ChartTrendIcon direction={footer.trendDirection} />)}
                             </div>
                             <div className="text-muted-foreground flex items-center gap-2 leading-none">
-                                {footerContent.subText}
+                                {footer.subText}
                             </div>
                         </div>
                     </div>
@@ -318,7 +461,7 @@ export function LineChartComponent({
             )}
         </Card>
     )
-}
+})
 
 
 // ========================================================================================
@@ -5,10 +5,7 @@ import { Pie, PieChart, Sector, Label } from "recharts"
 import {
     Card,
     CardContent,
-    CardDescription,
     CardFooter,
-    CardHeader,
-    CardTitle,
 } from "../ui/card"
 import {
     ChartConfig,
@@ -16,8 +13,19 @@ import {
     ChartStyle,
     ChartTooltip,
     ChartTooltipContent,
+    formatChartValue,
+    getChartValueConfig,
 } from "../ui/chart"
-import { useMemo, useState } from "react"
+import { ChartDataTable, describeChartPoint, describePieChart, getChartLabel } from "../ui/chart-data-table"
+import { ChartExportMenu } from "../ui/chart-export"
+import { ChartCardHeader } from "../ui/chart-header"
+import { ChartStatusContent, resolveChartStatus, type ChartStatus } from "../ui/chart-state"
+import { ChartDiagnosticsBadge } from "../ui/chart-diagnostics"
+import { useChartExport, type ChartExportConfig, type ChartExportHandle } from "../../hooks/use-chart-export"
+import { useChartKeyboard } from "../../hooks/use-chart-keyboard"
+import { shouldDiagnoseChart, useChartDiagnostics } from "../../hooks/use-chart-diagnostics"
+import { diagnosePieData, type ChartDiagnostic } from "../../lib/diagnostics"
+import { forwardRef, useId, useMemo, useRef, useState } from "react"
 import { motion } from "framer-motion"
 
 export interface PieChartData {
@@ -48,6 +56,19 @@ export interface PieChartProps {
     showLegend?: boolean
     showTooltip?: boolean
     showActiveSection?: boolean
+    locale?: string
+    // Loading skeleton, empty and error slots; empty is also detected from the data
+    status?: ChartStatus
+    errorMessage?: React.ReactNode
+    emptyState?: React.ReactNode
+    errorState?: React.ReactNode
+    onRetry?: () => void
+    // Export menu in the header (PNG, SVG, CSV); the ref API works without it
+    exportable?: boolean | ChartExportConfig
+    // Data table under the chart; it's always rendered for screen readers, this makes it visible
+    showDataTable?: boolean
+    // Data problems (unknown keys, non-numeric values, duplicate categories): warned and badged in development
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void
     footerContent?: {
         mainText?: string
         subText?: string
@@ -57,7 +78,7 @@ export interface PieChartProps {
     }
 }
 
-export const PieChartComponent = ({
+export const PieChartComponent = forwardRef<ChartExportHandle, PieChartProps>(({
     title,
     description,
     data,
@@ -75,13 +96,41 @@ export const PieChartComponent = ({
     showLegend = true,
     showTooltip = true,
     showActiveSection = false,
-    footerContent
-}: PieChartProps) => {
+    locale,
+    status,
+    errorMessage,
+    emptyState,
+    errorState,
+    onRetry,
+    exportable,
+    showDataTable = false,
+    footerContent,
+    onDiagnostics,
+}, ref) => {
     const [hoverIndex, setHoverIndex] = useState<number | null>(null)
 
+    // Keyboard: left/right/Home/End move between slices
+    const keyboard = useChartKeyboard({ length: data.length })
+
+    // The active slice follows keyboard focus first, then the mouse
     const activeIndex = useMemo(() => {
-        return showActiveSection ? hoverIndex : null
-    }, [hoverIndex, showActiveSection])
+        return showActiveSection ? (keyboard.activeIndex ?? hoverIndex) : null
+    }, [keyboard.activeIndex, hoverIndex, showActiveSection])
+
+    // Loading, empty and error states replace the pie, header and footer stay
+    const chartStatus = resolveChartStatus(
+        status,
+        !data.some(item => typeof item[dataKey] === 'number' && (item[dataKey] as number) > 0)
+    )
+    const chartSize = (outerRadius + strokeWidth) * 2 + 100
+
+    // Data checked for unknown keys, duplicate slices and percentages that don't add up
+    const diagnosticsEnabled = shouldDiagnoseChart(onDiagnostics)
+    const diagnostics = useMemo(
+        () => diagnosticsEnabled ? diagnosePieData(data, { dataKey, nameKey }) : [],
+        [diagnosticsEnabled, data, dataKey, nameKey]
+    )
+    const { showBadge: showDiagnostics } = useChartDiagnostics('PieChartComponent', diagnostics, onDiagnostics)
 
     const handleActiveSection = (_: unknown, index: number) => {
         if (showActiveSection) {
@@ -120,20 +169,63 @@ export const PieChartComponent = ({
         )
     }
 
+    // Export: PNG/SVG from the rendered chart, CSV from the rows currently shown
+    const cardRef = useRef<HTMLDivElement>(null)
+    const exportColumns = useMemo(() => Array.from(new Set([nameKey, dataKey, 'percentage'])), [nameKey, dataKey])
+    const chartExport = useChartExport({
+        ref,
+        rootRef: cardRef,
+        rows: data,
+        columns: exportColumns,
+        exportable,
+        title,
+    })
+
+    // Screen-reader summary (largest and smallest slice) and data table
+    const summaryId = useId()
+    const chartSummary = useMemo(() => describePieChart({
+        title,
+        config: chartConfig,
+        rows: data,
+        nameKey,
+        dataKey,
+        locale,
+    }), [title, chartConfig, data, nameKey, dataKey, locale])
+
     return (
-        <Card className={`flex flex-col h-full ${className}`}>
+        <Card ref={cardRef} className={`flex flex-col h-full ${className}`}>
             <ChartStyle id={`pie-chart-${title}`} config={chartConfig} />
 
-            <CardHeader className="items-center pb-4 text-center">
-                <CardTitle>{title}</CardTitle>
-                {description && <CardDescription>{description}</CardDescription>}
-            </CardHeader>
+            <ChartCardHeader
+                title={title}
+                description={description}
+                align="center"
+                className="pb-4"
+                actions={chartExport.config && <ChartExportMenu formats={chartExport.config.formats} onExport={chartExport.exportAs} />}
+            />
 
             <CardContent className="flex flex-col flex-1 justify-between gap-6">
-                <div className="flex justify-center items-center flex-1">
+                <ChartStatusContent
+                    status={chartStatus}
+                    shape={innerRadius > 0 ? 'radial' : 'pie'}
+                    placeholderClassName=""
+                    placeholderStyle={{ width: `${chartSize}px`, height: `${chartSize}px` }}
+                    emptyState={emptyState}
+                    errorState={errorState}
+                    errorMessage={errorMessage}
+                    onRetry={onRetry}
+                    className="flex justify-center items-center flex-1"
+                >
                     <ChartContainer
                         config={chartConfig}
-                        className="flex justify-center items-center"
+                        locale={locale}
+                        role="group"
+                        aria-roledescription="pie chart"
+                        aria-label={title ?? 'Pie chart'}
+                        aria-describedby={summaryId}
+                        tabIndex={0}
+                        {...keyboard.containerProps}
+                        className="flex justify-center items-center rounded-md outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
                         style={{
                             width: `${(outerRadius + strokeWidth) * 2 + 100}px`,
                             height: `${(outerRadius + strokeWidth) * 2 + 100}px`
@@ -198,6 +290,13 @@ export const PieChartComponent = ({
                                                 const activeData = data[activeIndex]
                                                 if (!activeData) return null
 
+                                                // Slice entry formats first, then the entry for the value key
+                                                const valueConfig = getChartValueConfig(
+                                                    chartConfig,
+                                                    chartConfig[String(activeData[nameKey]) as keyof typeof chartConfig],
+                                                    dataKey
+                                                )
+
                                                 return (
                                                     <text
                                                         x={viewBox.cx}
@@ -210,7 +309,7 @@ export const PieChartComponent = ({
                                                             y={viewBox.cy}
                                                             className="fill-foreground text-2xl font-bold"
                                                         >
-                                                            {String(activeData[dataKey] || '').toLocaleString()}
+                                                            {formatChartValue(activeData[dataKey], valueConfig, locale)}
                                                         </tspan>
                                                         <tspan
                                                             x={viewBox.cx}
@@ -232,9 +331,39 @@ export const PieChartComponent = ({
                             </Pie>
                         </PieChart>
                     </ChartContainer>
-                </div>
+                </ChartStatusContent>
+
+                {showDiagnostics && (
+                    <ChartDiagnosticsBadge diagnostics={diagnostics} />
+                )}
 
-                {renderLegend()}
+                <span aria-live="polite" className="sr-only">
+                    {describeChartPoint({
+                        config: chartConfig,
+                        row: keyboard.activeIndex !== null ? data[keyboard.activeIndex] : undefined,
+                        categoryKey: nameKey,
+                        dataKey,
+                        formatCategory: (value) => getChartLabel(chartConfig, value),
+                        locale,
+                    })}
+                </span>
+
+                {chartStatus === 'ready' && (
+                    <ChartDataTable
+                        summaryId={summaryId}
+                        summary={chartSummary}
+                        caption={title}
+                        config={chartConfig}
+                        rows={data}
+                        categoryKey={nameKey}
+                        seriesKeys={exportColumns.slice(1)}
+                        formatCategory={(value) => getChartLabel(chartConfig, value)}
+                        locale={locale}
+                        visible={showDataTable}
+                    />
+                )}
+
+                {chartStatus === 'ready' && renderLegend()}
             </CardContent>
 
             {footerContent && (
@@ -257,7 +386,9 @@ export const PieChartComponent = ({
             )}
         </Card>
     )
-}
+})
+
+PieChartComponent.displayName = 'PieChartComponent'
 
 
 // ========================================================================================
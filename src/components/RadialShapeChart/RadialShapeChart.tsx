@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { forwardRef, useEffect, useId, useMemo, useRef, useState } from "react"
 import {
     Label,
     PolarGrid,
@@ -12,12 +12,17 @@ import {
 import {
     Card,
     CardContent,
-    CardDescription,
     CardFooter,
-    CardHeader,
-    CardTitle,
 } from "../ui/card"
 import { ChartConfig, ChartContainer } from "../ui/chart"
+import { ChartDataTable, getChartLabel } from "../ui/chart-data-table"
+import { ChartExportMenu } from "../ui/chart-export"
+import { ChartCardHeader } from "../ui/chart-header"
+import { ChartStatusContent, resolveChartStatus, type ChartStatus } from "../ui/chart-state"
+import { ChartDiagnosticsBadge } from "../ui/chart-diagnostics"
+import { useChartExport, type ChartExportConfig, type ChartExportHandle } from "../../hooks/use-chart-export"
+import { shouldDiagnoseChart, useChartDiagnostics } from "../../hooks/use-chart-diagnostics"
+import { diagnoseRadialData, type ChartDiagnostic } from "../../lib/diagnostics"
 import { TrendingUp } from "lucide-react"
 
 export interface RadialChartData {
@@ -49,9 +54,26 @@ export interface RadialChartProps {
     labelSize?: 'xs' | 'sm' | 'md'
     animationDuration?: number
     centerOffset?: { x?: number; y?: number }
+    locale?: string         // Value formatting in the accessible summary and the data table
+
+    // Loading skeleton, empty and error slots; empty is also detected from the data
+    status?: ChartStatus
+    errorMessage?: React.ReactNode
+    emptyState?: React.ReactNode
+    errorState?: React.ReactNode
+    onRetry?: () => void
+
+    // Export menu in the header (PNG, SVG, CSV); the ref API works without it
+    exportable?: boolean | ChartExportConfig
+
+    // Data table under the chart; it's always rendered for screen readers, this makes it visible
+    showDataTable?: boolean
+
+    // Data problems (unknown keys, non-numeric values, duplicate categories): warned and badged in development
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void
 }
 
-export const RadialChartShapeComponent = ({
+export const RadialChartShapeComponent = forwardRef<ChartExportHandle, RadialChartProps>(({
     title,
     description,
     data,
@@ -66,9 +88,31 @@ export const RadialChartShapeComponent = ({
     numberSize = 'lg',
     labelSize = 'sm',
     animationDuration = 2.5,
-    centerOffset = {}
-}: RadialChartProps) => {
-    const targetEndAngle = startAngle + (data.percentage * 3.6) // 360 độ tương ứng với 100%
+    centerOffset = {},
+    locale,
+    status,
+    errorMessage,
+    emptyState,
+    errorState,
+    onRetry,
+    exportable,
+    showDataTable = false,
+    onDiagnostics,
+}, ref) => {
+    // A missing or non-numeric percentage counts as empty instead of animating to NaN
+    const hasPercentage = typeof data?.percentage === 'number' && Number.isFinite(data.percentage)
+    const percentage = hasPercentage ? data.percentage : 0
+    const chartStatus = resolveChartStatus(status, !hasPercentage)
+
+    // Value and percentage must be numbers, a string percentage silently renders as empty
+    const diagnosticsEnabled = shouldDiagnoseChart(onDiagnostics)
+    const diagnostics = useMemo(
+        () => diagnosticsEnabled ? diagnoseRadialData(data) : [],
+        [diagnosticsEnabled, data]
+    )
+    const { showBadge: showDiagnostics } = useChartDiagnostics('RadialChartShapeComponent', diagnostics, onDiagnostics)
+
+    const targetEndAngle = startAngle + (percentage * 3.6) // 360 độ tương ứng với 100%
     const chartRef = useRef<HTMLDivElement>(null)
     const [isChartVisible, setIsChartVisible] = useState(false)
     const [currentEndAngle, setCurrentEndAngle] = useState(startAngle) // Start from startAngle
@@ -103,7 +147,7 @@ export const RadialChartShapeComponent = ({
         const startEndAngle = startAngle
         const endEndAngle = targetEndAngle
         const startPercentage = 0
-        const endPercentage = data.percentage
+        const endPercentage = percentage
 
         const animate = () => {
             const elapsed = Date.now() - startTime
@@ -138,7 +182,7 @@ export const RadialChartShapeComponent = ({
                 cancelAnimationFrame(animationRef.current)
             }
         }
-    }, [isChartVisible, targetEndAngle, startAngle, data.percentage, animationDuration])
+    }, [isChartVisible, targetEndAngle, startAngle, percentage, animationDuration])
 
     // Create chart data with current animated values
     const chartData = [{
@@ -168,7 +212,7 @@ export const RadialChartShapeComponent = ({
 
     // Calculate dynamic dimensions based on content and radius
     const calculateDimensions = () => {
-        const maxDigits = data.percentage.toString().length + 1 // +1 for % symbol
+        const maxDigits = percentage.toString().length + 1 // +1 for % symbol
         const baseWidth = Math.max(120, maxDigits * 20)
         const baseHeight = 80
 
@@ -181,17 +225,55 @@ export const RadialChartShapeComponent = ({
         }
     }
 
+    // Export: PNG/SVG from the rendered chart, CSV from the single data row
+    const exportRows = useMemo(() => data ? [data as unknown as Record<string, unknown>] : [], [data])
+    const chartExport = useChartExport({
+        ref,
+        rootRef: chartRef,
+        rows: exportRows,
+        columns: ['category', 'value', 'percentage'],
+        exportable,
+        title,
+    })
+
+    // Exposed as a meter; the summary reads the final value, not the animated one
+    const summaryId = useId()
+    const categoryLabel = data ? getChartLabel(chartConfig, data.category) : ''
+    const valueText = `${percentage}%${typeof data?.value === 'number' ? ` (${data.value.toLocaleString(locale)})` : ''}`
+    const chartSummary = [title && `${title}.`, `${centerLabel ?? categoryLabel}: ${valueText}.`].filter(Boolean).join(' ')
+
     return (
         <Card ref={chartRef} className={`flex flex-col ${className}`}>
-            <CardHeader className="items-center pb-0 text-center">
-                <CardTitle>{title}</CardTitle>
-                {description && <CardDescription>{description}</CardDescription>}
-            </CardHeader>
+            <ChartCardHeader
+                title={title}
+                description={description}
+                align="center"
+                className="pb-0"
+                actions={chartExport.config && <ChartExportMenu formats={chartExport.config.formats} onExport={chartExport.exportAs} />}
+            />
 
             <CardContent className="flex-1">
-                <div className="w-full h-full flex items-center justify-center">
+                <ChartStatusContent
+                    status={chartStatus}
+                    shape="radial"
+                    placeholderClassName=""
+                    placeholderStyle={{ width: `${outerRadius * 2 + 50}px`, height: `${outerRadius * 2 + 50}px` }}
+                    emptyState={emptyState}
+                    errorState={errorState}
+                    errorMessage={errorMessage}
+                    onRetry={onRetry}
+                    className="w-full h-full flex items-center justify-center"
+                >
                     <ChartContainer
                         config={chartConfig}
+                        locale={locale}
+                        role="meter"
+                        aria-label={title ?? centerLabel ?? categoryLabel}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={percentage}
+                        aria-valuetext={valueText}
+                        aria-describedby={summaryId}
                         className="w-full fill-foreground"
                         style={{
                             width: `${outerRadius * 2 + 50}px`,
@@ -220,7 +302,7 @@ export const RadialChartShapeComponent = ({
                             <RadialBar
                                 dataKey="percentage"
                                 cornerRadius={cornerRadius}
-                                fill={data.fill}
+                                fill={data?.fill}
                             />
 
                             <PolarRadiusAxis tick={false} tickLine={false} axisLine={false}>
@@ -272,7 +354,27 @@ export const RadialChartShapeComponent = ({
                             </PolarRadiusAxis>
                         </RadialBarChart>
                     </ChartContainer>
-                </div>
+                </ChartStatusContent>
+
+                {showDiagnostics && (
+                    <ChartDiagnosticsBadge diagnostics={diagnostics} />
+                )}
+
+                {chartStatus === 'ready' && (
+                    <ChartDataTable
+                        summaryId={summaryId}
+                        summary={chartSummary}
+                        caption={title}
+                        config={chartConfig}
+                        rows={exportRows}
+                        categoryKey="category"
+                        seriesKeys={['value', 'percentage']}
+                        formatCategory={(value) => getChartLabel(chartConfig, value)}
+                        locale={locale}
+                        visible={showDataTable}
+                        className="mt-4"
+                    />
+                )}
             </CardContent>
 
             {footerContent && (
@@ -295,7 +397,9 @@ export const RadialChartShapeComponent = ({
             )}
         </Card>
     )
-}
+})
+
+RadialChartShapeComponent.displayName = 'RadialChartShapeComponent'
 
 
 // ========================================================================================
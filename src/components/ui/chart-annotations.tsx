@@ -0,0 +1,146 @@
+import { ReferenceArea, ReferenceDot, ReferenceLine } from "recharts"
+
+import type { YAxisSide } from "../../lib/axis"
+import { toDate } from "../../lib/date"
+import type { AxisScale } from "../../lib/scale"
+
+type AnnotationBase = {
+  id?: string
+  label?: string
+  // Any CSS color, falls back to the ChartContainer reference styles
+  color?: string
+  // Value axis the y values belong to on dual-axis charts (default "left")
+  yAxisId?: YAxisSide
+}
+
+export type ChartAnnotation = AnnotationBase &
+  (
+    | { type: "horizontal-line"; y: number; strokeDasharray?: string }
+    | { type: "vertical-line"; x: string | number; strokeDasharray?: string }
+    | { type: "y-range"; y1: number; y2: number }
+    | { type: "x-range"; x1: string | number; x2: string | number }
+    | { type: "point"; x: string | number; y: number }
+  )
+
+// Numeric values annotations place on one value axis, used to widen its domain
+function getAnnotationValues(
+  annotations: ChartAnnotation[] = [],
+  side: YAxisSide = "left"
+) {
+  return annotations.flatMap((annotation) => {
+    if ((annotation.yAxisId ?? "left") !== side) return []
+
+    switch (annotation.type) {
+      case "horizontal-line":
+        return [annotation.y]
+      case "y-range":
+        return [annotation.y1, annotation.y2]
+      case "point":
+        return [annotation.y]
+      default:
+        return []
+    }
+  })
+}
+
+// Recharts only picks up reference elements that are direct chart children,
+// so this returns elements to spread inside the chart instead of a component.
+function renderChartAnnotations(
+  annotations: ChartAnnotation[] = [],
+  {
+    swapAxes = false,
+    dualAxis = false,
+    timeAxis = false,
+    scales = {},
+  }: {
+    swapAxes?: boolean // Horizontal bar layout: category on Y, values on X
+    dualAxis?: boolean // Both value axes are rendered, annotations pick theirs
+    timeAxis?: boolean // The x axis holds epoch ms, x values given as dates are converted
+    scales?: Partial<Record<YAxisSide, AxisScale>>
+  } = {}
+) {
+  // On a time axis "2024-04-01" has to become the timestamp the axis is drawn in
+  const toX = (value: string | number) =>
+    timeAxis ? (toDate(value)?.getTime() ?? value) : value
+
+  return annotations.map((annotation, index) => {
+    const key = annotation.id ?? `annotation-${index}`
+    const label = annotation.label
+      ? { value: annotation.label, position: "insideTopLeft" as const, fontSize: 12 }
+      : undefined
+    const side = annotation.yAxisId ?? "left"
+    const axisProps = dualAxis ? { yAxisId: side } : {}
+
+    // A log axis can't be extended down to a value <= 0, such an annotation is left out instead
+    const overflow = (values: number[]) =>
+      scales[side] === "log" && values.some((value) => value <= 0)
+        ? ("discard" as const)
+        : ("extendDomain" as const)
+
+    switch (annotation.type) {
+      case "horizontal-line":
+      case "vertical-line": {
+        const isValueLine = annotation.type === "horizontal-line"
+        const position = isValueLine ? annotation.y : toX(annotation.x)
+        const onXAxis = isValueLine === swapAxes
+
+        return (
+          <ReferenceLine
+            key={key}
+            {...axisProps}
+            {...(onXAxis ? { x: position } : { y: position })}
+            stroke={annotation.color}
+            strokeDasharray={annotation.strokeDasharray ?? "4 4"}
+            ifOverflow={isValueLine ? overflow([annotation.y]) : "extendDomain"}
+            label={label}
+          />
+        )
+      }
+
+      case "y-range":
+      case "x-range": {
+        const isValueRange = annotation.type === "y-range"
+        const [start, end] = isValueRange
+          ? [annotation.y1, annotation.y2]
+          : [toX(annotation.x1), toX(annotation.x2)]
+        const onXAxis = isValueRange === swapAxes
+
+        return (
+          <ReferenceArea
+            key={key}
+            {...axisProps}
+            {...(onXAxis ? { x1: start, x2: end } : { y1: start, y2: end })}
+            fill={annotation.color}
+            fillOpacity={annotation.color ? 0.15 : undefined}
+            ifOverflow={
+              isValueRange
+                ? overflow([annotation.y1, annotation.y2])
+                : "extendDomain"
+            }
+            label={label}
+          />
+        )
+      }
+
+      case "point":
+        return (
+          <ReferenceDot
+            key={key}
+            {...axisProps}
+            x={swapAxes ? annotation.y : toX(annotation.x)}
+            y={swapAxes ? toX(annotation.x) : annotation.y}
+            r={5}
+            fill={annotation.color}
+            ifOverflow={overflow([annotation.y])}
+            label={
+              annotation.label
+                ? { value: annotation.label, position: "top", fontSize: 12 }
+                : undefined
+            }
+          />
+        )
+    }
+  })
+}
+
+export { getAnnotationValues, renderChartAnnotations }
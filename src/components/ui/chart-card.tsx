@@ -0,0 +1,100 @@
+import * as React from "react"
+import { TrendingDown, TrendingUp } from "lucide-react"
+
+import type { SeriesTrend } from "../../lib/summary"
+import { cn } from "../../lib/utils"
+import { Card, CardContent, CardFooter } from "./card"
+import { ChartCardHeader } from "./chart-header"
+
+// Card around a composed chart, same sizing as the preset components
+const ChartCardRoot = React.forwardRef<
+  HTMLDivElement,
+  React.ComponentPropsWithoutRef<"div">
+>(function ChartCardRoot({ className, ...props }, ref) {
+  return (
+    <Card
+      ref={ref}
+      className={cn("flex h-full flex-col", className)}
+      {...props}
+    />
+  )
+})
+
+function ChartCardContent({
+  className,
+  ...props
+}: React.ComponentProps<"div">) {
+  return <CardContent className={cn("flex-1", className)} {...props} />
+}
+
+// Headline (with an optional trend icon) and a muted line under it; children replace both
+function ChartCardFooter({
+  mainText,
+  subText,
+  icon,
+  mainClassName,
+  className,
+  children,
+  ...props
+}: React.ComponentProps<"div"> & {
+  mainText?: React.ReactNode
+  subText?: React.ReactNode
+  icon?: React.ReactNode
+  mainClassName?: string
+}) {
+  return (
+    <CardFooter
+      className={cn("flex-col items-start gap-2 text-sm", className)}
+      {...props}
+    >
+      {children ?? (
+        <>
+          {(mainText || icon) && (
+            <div
+              className={cn(
+                "flex gap-2 leading-none font-medium",
+                mainClassName
+              )}
+            >
+              {mainText}
+              {icon}
+            </div>
+          )}
+          {subText && (
+            <div className="text-muted-foreground leading-none">{subText}</div>
+          )}
+        </>
+      )}
+    </CardFooter>
+  )
+}
+
+// Icon for a computed footer trend, nothing when the series is flat
+function ChartTrendIcon({
+  direction,
+  className,
+}: {
+  direction?: SeriesTrend
+  className?: string
+}) {
+  if (direction === "up")
+    return <TrendingUp className={cn("h-4 w-4", className)} />
+  if (direction === "down")
+    return <TrendingDown className={cn("h-4 w-4", className)} />
+  return null
+}
+
+const ChartCard = {
+  Root: ChartCardRoot,
+  Header: ChartCardHeader,
+  Content: ChartCardContent,
+  Footer: ChartCardFooter,
+}
+
+export {
+  ChartCard,
+  ChartCardRoot,
+  ChartCardContent,
+  ChartCardFooter,
+  ChartTrendIcon,
+}
@@ -0,0 +1,228 @@
+import * as React from "react"
+
+import { isMissingCell } from "../../lib/missing"
+import { summarizeSeries } from "../../lib/summary"
+import { cn } from "../../lib/utils"
+import { formatChartValue, getChartValueConfig, type ChartConfig } from "./chart"
+
+// Plain-text label for a key, resolved like ChartTooltipContent (config label, then the key)
+function getChartLabel(config: ChartConfig, key: unknown) {
+  const label = config[`${key}`]?.label
+  return typeof label === "string" || typeof label === "number"
+    ? `${label}`
+    : `${key ?? ""}`
+}
+
+function formatConfigValue(
+  config: ChartConfig,
+  key: string,
+  value: unknown,
+  locale?: string
+) {
+  if (value === null || value === undefined) {
+    return "—"
+  }
+
+  return formatChartValue(
+    value,
+    getChartValueConfig(config, config[key], key),
+    locale
+  )
+}
+
+// "Desktop: lowest 73 in April, highest 305 in February, up from 186 to 214."
+function describeCartesianChart({
+  title,
+  config,
+  rows,
+  categoryKey,
+  seriesKeys,
+  formatCategory = (value) => `${value ?? ""}`,
+  locale,
+}: {
+  title?: string
+  config: ChartConfig
+  rows: Array<Record<string, unknown>>
+  categoryKey: string
+  seriesKeys: string[]
+  formatCategory?: (value: unknown) => string
+  locale?: string
+}) {
+  if (!rows.length) {
+    return title ? `${title}. No data.` : "No data."
+  }
+
+  const range = `${rows.length} points from ${formatCategory(rows[0][categoryKey])} to ${formatCategory(rows[rows.length - 1][categoryKey])}.`
+  const series = summarizeSeries(rows, categoryKey, seriesKeys).map((item) => {
+    const format = (value: number) =>
+      formatConfigValue(config, item.dataKey, value, locale)
+    const trend =
+      item.trend === "flat"
+        ? `flat at ${format(item.last)}`
+        : `${item.trend} from ${format(item.first)} to ${format(item.last)}`
+
+    return `${getChartLabel(config, item.dataKey)}: lowest ${format(item.min)} in ${formatCategory(item.minCategory)}, highest ${format(item.max)} in ${formatCategory(item.maxCategory)}, ${trend}.`
+  })
+
+  return [title && `${title}.`, range, ...series].filter(Boolean).join(" ")
+}
+
+// "6 slices. Largest: Product 1,250 (28.1%). Smallest: Complaints 234 (5.2%)."
+function describePieChart({
+  title,
+  config,
+  rows,
+  nameKey,
+  dataKey,
+  locale,
+}: {
+  title?: string
+  config: ChartConfig
+  rows: Array<Record<string, unknown>>
+  nameKey: string
+  dataKey: string
+  locale?: string
+}) {
+  const slices = rows.filter((row) => typeof row[dataKey] === "number")
+
+  if (!slices.length) {
+    return title ? `${title}. No data.` : "No data."
+  }
+
+  const describe = (row: Record<string, unknown>) => {
+    const percentage =
+      typeof row.percentage === "number" ? ` (${row.percentage}%)` : ""
+    return `${getChartLabel(config, row[nameKey])} ${formatConfigValue(config, `${row[nameKey]}`, row[dataKey], locale)}${percentage}`
+  }
+  const sorted = [...slices].sort(
+    (a, b) => (b[dataKey] as number) - (a[dataKey] as number)
+  )
+
+  return [
+    title && `${title}.`,
+    `${slices.length} slices.`,
+    `Largest: ${describe(sorted[0])}.`,
+    sorted.length > 1 && `Smallest: ${describe(sorted[sorted.length - 1])}.`,
+  ]
+    .filter(Boolean)
+    .join(" ")
+}
+
+// Announcement for a keyboard-focused point: "April, Desktop: 73"
+function describeChartPoint({
+  config,
+  row,
+  categoryKey,
+  dataKey,
+  formatCategory = (value) => `${value ?? ""}`,
+  locale,
+}: {
+  config: ChartConfig
+  row?: Record<string, unknown>
+  categoryKey: string
+  dataKey?: string
+  formatCategory?: (value: unknown) => string
+  locale?: string
+}) {
+  if (!row || !dataKey) {
+    return ""
+  }
+
+  const value = isMissingCell(row, dataKey) ? null : row[dataKey]
+  return `${formatCategory(row[categoryKey])}, ${getChartLabel(config, dataKey)}: ${formatConfigValue(config, dataKey, value, locale)}`
+}
+
+// Screen-reader summary plus the chart data as a table. The table is visually
+// hidden unless `visible` is set, the summary always is.
+function ChartDataTable({
+  summaryId,
+  summary,
+  caption,
+  config,
+  rows,
+  categoryKey,
+  seriesKeys,
+  formatCategory = (value) => `${value ?? ""}`,
+  locale,
+  visible = false,
+  className,
+}: {
+  summaryId: string
+  summary: string
+  caption?: string
+  config: ChartConfig
+  rows: Array<Record<string, unknown>>
+  categoryKey: string
+  seriesKeys: string[]
+  formatCategory?: (value: unknown) => string
+  locale?: string
+  visible?: boolean
+  className?: string
+}) {
+  return (
+    <>
+      <p id={summaryId} className="sr-only">
+        {summary}
+      </p>
+      <table
+        data-slot="chart-data-table"
+        className={cn(
+          visible ? "w-full text-left text-sm tabular-nums" : "sr-only",
+          className
+        )}
+      >
+        {caption && (
+          <caption className={cn(visible && "text-muted-foreground mb-2 text-left")}>
+            {caption}
+          </caption>
+        )}
+        <thead>
+          <tr className={cn(visible && "border-b")}>
+            <th scope="col" className={cn(visible && "py-1.5 pr-4 font-medium")}>
+              {getChartLabel(config, categoryKey)}
+            </th>
+            {seriesKeys.map((key) => (
+              <th
+                key={key}
+                scope="col"
+                className={cn(visible && "py-1.5 pr-4 font-medium")}
+              >
+                {getChartLabel(config, key)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className={cn(visible && "border-b last:border-0")}>
+              <th
+                scope="row"
+                className={cn(visible && "text-muted-foreground py-1.5 pr-4 font-normal")}
+              >
+                {formatCategory(row[categoryKey])}
+              </th>
+              {seriesKeys.map((key) => (
+                <td key={key} className={cn(visible && "py-1.5 pr-4")}>
+                  {formatConfigValue(
+                    config,
+                    key,
+                    isMissingCell(row, key) ? null : row[key],
+                    locale
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  )
+}
+
+export {
+  ChartDataTable,
+  describeCartesianChart,
+  describeChartPoint,
+  describePieChart,
+  getChartLabel,
+}
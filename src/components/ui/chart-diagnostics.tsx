@@ -0,0 +1,38 @@
+import * as React from "react"
+import { Bug } from "lucide-react"
+
+import type { ChartDiagnostic } from "../../lib/diagnostics"
+import { cn } from "../../lib/utils"
+
+// Development-only badge under the plot, expands into the list of data problems
+function ChartDiagnosticsBadge({
+  diagnostics,
+  className,
+  ...props
+}: React.ComponentProps<"details"> & { diagnostics: ChartDiagnostic[] }) {
+  if (!diagnostics.length) return null
+
+  return (
+    <details
+      data-slot="chart-diagnostics"
+      className={cn("mt-2 text-xs", className)}
+      {...props}
+    >
+      <summary className="inline-flex cursor-pointer list-none items-center gap-1.5 rounded-md border border-amber-500/40 bg-amber-500/10 px-2 py-0.5 font-medium text-amber-700 dark:text-amber-400 [&>svg]:h-3.5 [&>svg]:w-3.5">
+        <Bug aria-hidden />
+        {diagnostics.length === 1
+          ? "1 data issue"
+          : `${diagnostics.length} data issues`}
+      </summary>
+      <ul className="text-muted-foreground mt-2 list-disc space-y-1 pl-4">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={`${diagnostic.code}-${diagnostic.key ?? index}`}>
+            {diagnostic.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  )
+}
+
+export { ChartDiagnosticsBadge }
@@ -0,0 +1,94 @@
+import * as React from "react"
+import { Download } from "lucide-react"
+
+import type { ChartExportFormat } from "../../hooks/use-chart-export"
+import { cn } from "../../lib/utils"
+import { Button } from "./button"
+
+const EXPORT_LABELS: Record<ChartExportFormat, string> = {
+  png: "Download PNG",
+  svg: "Download SVG",
+  csv: "Download CSV",
+}
+
+function ChartExportMenu({
+  formats = ["png", "svg", "csv"],
+  onExport,
+  className,
+}: {
+  formats?: ChartExportFormat[]
+  onExport: (format: ChartExportFormat) => void
+  className?: string
+}) {
+  const [open, setOpen] = React.useState(false)
+  const menuRef = React.useRef<HTMLDivElement>(null)
+
+  // Close on outside press and Escape
+  React.useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [open])
+
+  return (
+    <div
+      ref={menuRef}
+      data-slot="chart-export-menu"
+      className={cn("relative", className)}
+    >
+      <Button
+        variant="outline"
+        size="icon-sm"
+        aria-label="Export chart"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        onClick={() => setOpen((value) => !value)}
+      >
+        <Download className="h-4 w-4" />
+      </Button>
+
+      {open && (
+        <div
+          role="menu"
+          className="bg-popover text-popover-foreground absolute top-full right-0 z-50 mt-1 min-w-36 rounded-md border p-1 shadow-md"
+        >
+          {formats.map((format) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              className="hover:bg-accent hover:text-accent-foreground focus-visible:bg-accent w-full rounded-sm px-2 py-1.5 text-left text-sm outline-none"
+              onClick={() => {
+                setOpen(false)
+                onExport(format)
+              }}
+            >
+              {EXPORT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export { ChartExportMenu }
@@ -0,0 +1,102 @@
+import * as React from "react"
+
+import { cn } from "../../lib/utils"
+import { Button } from "./button"
+import { CardDescription, CardHeader, CardTitle } from "./card"
+
+export interface ToggleOption {
+  value: string
+  label: string
+  icon?: React.ReactNode
+}
+
+export interface ChartToggleOptions {
+  options: ToggleOption[]
+  currentValue: string
+  onChange: (value: string) => void
+  position?: "header-right" | "header-left"
+  display?: "buttons" | "select"
+}
+
+function ChartToggleGroup({
+  options,
+  currentValue,
+  onChange,
+  display = "buttons",
+  className,
+}: Omit<ChartToggleOptions, "position"> & { className?: string }) {
+  if (display === "select") {
+    return (
+      <select
+        data-slot="chart-toggle-select"
+        value={currentValue}
+        onChange={(event) => onChange(event.target.value)}
+        className={cn(
+          "border-input bg-background h-8 rounded-md border px-2.5 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+          className
+        )}
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  return (
+    <div data-slot="chart-toggle-group" className={cn("flex space-x-2", className)}>
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          variant={currentValue === option.value ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(option.value)}
+          className="flex items-center gap-2"
+        >
+          {option.icon}
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+function ChartCardHeader({
+  title,
+  description,
+  actions,
+  position = "header-right",
+  align = "start",
+  className,
+}: {
+  title?: React.ReactNode
+  description?: React.ReactNode
+  actions?: React.ReactNode
+  position?: ChartToggleOptions["position"]
+  align?: "start" | "center" // Pie and radial charts center their title
+  className?: string
+}) {
+  return (
+    <CardHeader className={className}>
+      <div
+        className={cn(
+          "flex items-center justify-between gap-4",
+          position === "header-left" && "flex-row-reverse"
+        )}
+      >
+        <div
+          className={cn("space-y-1.5", align === "center" && "flex-1 text-center")}
+        >
+          {title && <CardTitle>{title}</CardTitle>}
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+
+        {actions && <div className="flex items-center space-x-2">{actions}</div>}
+      </div>
+    </CardHeader>
+  )
+}
+
+export { ChartCardHeader, ChartToggleGroup }
@@ -0,0 +1,214 @@
+import * as React from "react"
+import { Inbox, RotateCcw, TriangleAlert } from "lucide-react"
+
+import { cn } from "../../lib/utils"
+import { Button } from "./button"
+
+export type ChartStatus = "loading" | "empty" | "error" | "ready"
+
+export type ChartSkeletonShape = "area" | "bar" | "line" | "pie" | "radial"
+
+// Loading and error are always explicit, empty is also detected from the data
+function resolveChartStatus(status: ChartStatus | undefined, isEmpty: boolean): ChartStatus {
+  if (status === "loading" || status === "error" || status === "empty") {
+    return status
+  }
+
+  return isEmpty ? "empty" : "ready"
+}
+
+const BAR_HEIGHTS = [45, 70, 55, 85, 60, 95, 75]
+
+function ChartSkeleton({
+  shape,
+  className,
+  ...props
+}: React.ComponentProps<"div"> & { shape: ChartSkeletonShape }) {
+  return (
+    <div
+      data-slot="chart-skeleton"
+      className={cn("flex h-full w-full animate-pulse items-end", className)}
+      {...props}
+    >
+      {shape === "bar" && (
+        <div className="flex h-full w-full items-end gap-3 px-2">
+          {BAR_HEIGHTS.map((height, index) => (
+            <div
+              key={index}
+              className="bg-muted flex-1 rounded-t-md"
+              style={{ height: `${height}%` }}
+            />
+          ))}
+        </div>
+      )}
+
+      {(shape === "line" || shape === "area") && (
+        <svg
+          viewBox="0 0 100 50"
+          preserveAspectRatio="none"
+          className="h-full w-full"
+          aria-hidden
+        >
+          {shape === "area" && (
+            <path
+              d="M0 38 C15 30 25 34 35 24 S55 18 65 22 S85 10 100 14 L100 50 L0 50 Z"
+              className="fill-muted"
+            />
+          )}
+          <path
+            d="M0 38 C15 30 25 34 35 24 S55 18 65 22 S85 10 100 14"
+            fill="none"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className="stroke-muted-foreground/30"
+          />
+        </svg>
+      )}
+
+      {(shape === "pie" || shape === "radial") && (
+        <svg viewBox="0 0 100 100" className="mx-auto h-full" aria-hidden>
+          {shape === "pie" ? (
+            <circle cx={50} cy={50} r={42} className="fill-muted" />
+          ) : (
+            <circle
+              cx={50}
+              cy={50}
+              r={38}
+              fill="none"
+              strokeWidth={10}
+              className="stroke-muted"
+            />
+          )}
+        </svg>
+      )}
+    </div>
+  )
+}
+
+function ChartStatePlaceholder({
+  icon,
+  title,
+  description,
+  onRetry,
+  className,
+}: {
+  icon: React.ReactNode
+  title: React.ReactNode
+  description?: React.ReactNode
+  onRetry?: () => void
+  className?: string
+}) {
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 text-center text-sm",
+        className
+      )}
+    >
+      <div className="text-muted-foreground [&>svg]:h-8 [&>svg]:w-8">{icon}</div>
+      <div className="font-medium">{title}</div>
+      {description && (
+        <div className="text-muted-foreground max-w-xs">{description}</div>
+      )}
+      {onRetry && (
+        <Button variant="outline" size="sm" className="mt-1" onClick={onRetry}>
+          <RotateCcw className="h-4 w-4" />
+          Retry
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// Wraps the chart area: renders children when ready, otherwise a skeleton or
+// an empty/error slot sized like the chart so the card doesn't change height.
+function ChartStatusContent({
+  status,
+  shape,
+  placeholderClassName = "aspect-video w-full",
+  placeholderStyle,
+  emptyState,
+  errorState,
+  errorMessage,
+  onRetry,
+  className,
+  children,
+}: {
+  status: ChartStatus
+  shape: ChartSkeletonShape
+  placeholderClassName?: string
+  placeholderStyle?: React.CSSProperties
+  emptyState?: React.ReactNode
+  errorState?: React.ReactNode
+  errorMessage?: React.ReactNode
+  onRetry?: () => void
+  className?: string
+  children: React.ReactNode
+}) {
+  if (status === "ready") {
+    return <div className={className}>{children}</div>
+  }
+
+  return (
+    <div className={className}>
+      <div
+        data-slot="chart-state"
+        data-status={status}
+        role={status === "error" ? "alert" : "status"}
+        aria-busy={status === "loading" || undefined}
+        className={cn("flex items-center justify-center", placeholderClassName)}
+        style={placeholderStyle}
+      >
+        {status === "loading" && (
+          <>
+            <ChartSkeleton shape={shape} />
+            <span className="sr-only">Loading chart</span>
+          </>
+        )}
+
+        {status === "empty" &&
+          (emptyState ?? (
+            <ChartStatePlaceholder
+              icon={<Inbox />}
+              title="No data to display"
+              onRetry={onRetry}
+            />
+          ))}
+
+        {status === "error" &&
+          (errorState ?? (
+            <ChartStatePlaceholder
+              icon={<TriangleAlert />}
+              title="Couldn't load chart data"
+              description={errorMessage}
+              onRetry={onRetry}
+            />
+          ))}
+      </div>
+    </div>
+  )
+}
+
+// Small inline warning under the plot, e.g. values a log axis had to leave out
+function ChartNotice({
+  className,
+  children,
+  ...props
+}: React.ComponentProps<"p">) {
+  return (
+    <p
+      data-slot="chart-notice"
+      role="note"
+      className={cn(
+        "text-muted-foreground mt-2 flex items-center gap-1.5 text-xs [&>svg]:h-3.5 [&>svg]:w-3.5 [&>svg]:shrink-0",
+        className
+      )}
+      {...props}
+    >
+      <TriangleAlert aria-hidden />
+      {children}
+    </p>
+  )
+}
+
+export { resolveChartStatus, ChartSkeleton, ChartStatusContent, ChartNotice }
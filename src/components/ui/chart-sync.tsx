@@ -0,0 +1,63 @@
+"use client"
+
+import * as React from "react"
+
+import type { ChartValueRange } from "../../hooks/use-chart-zoom"
+
+type ChartSyncContextProps = {
+  syncId: string
+  syncRange: boolean
+  syncVisibility: boolean
+  range: ChartValueRange | null
+  setRange: (range: ChartValueRange | null) => void
+  hiddenSeries: string[]
+  setHiddenSeries: (hiddenSeries: string[]) => void
+}
+
+const ChartSyncContext = React.createContext<ChartSyncContextProps | null>(
+  null
+)
+
+// Null outside a <ChartSyncProvider />, charts then behave on their own
+function useChartSyncContext() {
+  return React.useContext(ChartSyncContext)
+}
+
+// Charts inside share the hover cursor and tooltip (matched by x value), and
+// optionally their zoom range and hidden series.
+function ChartSyncProvider({
+  syncId,
+  syncRange = true,
+  syncVisibility = true,
+  children,
+}: {
+  syncId?: string
+  syncRange?: boolean
+  syncVisibility?: boolean
+  children: React.ReactNode
+}) {
+  const generatedId = React.useId()
+  const [range, setRange] = React.useState<ChartValueRange | null>(null)
+  const [hiddenSeries, setHiddenSeries] = React.useState<string[]>([])
+
+  const value = React.useMemo<ChartSyncContextProps>(
+    () => ({
+      syncId: syncId ?? `chart-sync-${generatedId}`,
+      syncRange,
+      syncVisibility,
+      range,
+      setRange,
+      hiddenSeries,
+      setHiddenSeries,
+    }),
+    [syncId, generatedId, syncRange, syncVisibility, range, hiddenSeries]
+  )
+
+  return (
+    <ChartSyncContext.Provider value={value}>
+      {children}
+    </ChartSyncContext.Provider>
+  )
+}
+
+export { ChartSyncProvider, useChartSyncContext }
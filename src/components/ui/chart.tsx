@@ -1,6 +1,14 @@
 import * as React from "react"
 import * as RechartsPrimitive from "recharts"
 
+import type { YAxisSide } from "../../lib/axis"
+import { getDownsampleSource } from "../../lib/downsample"
+import { isMissingCell, isMissingValue } from "../../lib/missing"
+import {
+  formatValue,
+  resolveValueFormat,
+  type ValueFormat,
+} from "../../lib/format"
 import { cn } from "../../lib/utils"
 
 // Format: { THEME_NAME: CSS_SELECTOR }
@@ -10,6 +18,11 @@ export type ChartConfig = {
   [k in string]: {
     label?: React.ReactNode
     icon?: React.ComponentType
+    // How this series' values are shown in tooltips, labels and legends
+    format?: ValueFormat
+    unit?: string // Suffix such as "ms" or "req/s", also shown in the legend
+    precision?: number // Fixed number of decimals
+    valueFormatter?: (value: number) => string // Wins over format, unit and precision
   } & (
     | { color?: string; theme?: never }
     | { color?: never; theme: Record<keyof typeof THEMES, string> }
@@ -18,6 +31,7 @@ export type ChartConfig = {
 
 type ChartContextProps = {
   config: ChartConfig
+  locale?: string
 }
 
 const ChartContext = React.createContext<ChartContextProps | null>(null)
@@ -37,9 +51,11 @@ function ChartContainer({
   className,
   children,
   config,
+  locale,
   ...props
 }: React.ComponentProps<"div"> & {
   config: ChartConfig
+  locale?: string
   children: React.ComponentProps<
     typeof RechartsPrimitive.ResponsiveContainer
   >["children"]
@@ -48,12 +64,12 @@ function ChartContainer({
   const chartId = `chart-${id || uniqueId.replace(/:/g, "")}`
 
   return (
-    <ChartContext.Provider value={{ config }}>
+    <ChartContext.Provider value={{ config, locale }}>
       <div
         data-slot="chart"
         data-chart={chartId}
         className={cn(
-          "[&_.recharts-cartesian-axis-tick_text]:fill-muted-foreground [&_.recharts-cartesian-grid_line[stroke='#ccc']]:stroke-border/50 [&_.recharts-curve.recharts-tooltip-cursor]:stroke-border [&_.recharts-polar-grid_[stroke='#ccc']]:stroke-border [&_.recharts-radial-bar-background-sector]:fill-muted [&_.recharts-rectangle.recharts-tooltip-cursor]:fill-muted [&_.recharts-reference-line_[stroke='#ccc']]:stroke-border flex aspect-video justify-center text-xs [&_.recharts-dot[stroke='#fff']]:stroke-transparent [&_.recharts-layer]:outline-hidden [&_.recharts-sector]:outline-hidden [&_.recharts-sector[stroke='#fff']]:stroke-transparent [&_.recharts-surface]:outline-hidden",
+          "[&_.recharts-cartesian-axis-tick_text]:fill-muted-foreground [&_.recharts-cartesian-grid_line[stroke='#ccc']]:stroke-border/50 [&_.recharts-curve.recharts-tooltip-cursor]:stroke-border [&_.recharts-polar-grid_[stroke='#ccc']]:stroke-border [&_.recharts-radial-bar-background-sector]:fill-muted [&_.recharts-rectangle.recharts-tooltip-cursor]:fill-muted [&_.recharts-reference-line_[stroke='#ccc']]:stroke-border [&_.recharts-reference-area_[fill='#ccc']]:fill-muted [&_.recharts-reference-dot_[stroke='#ccc']]:stroke-border [&_.recharts-reference-dot_[fill='#fff']]:fill-foreground [&_.recharts-reference-line_.recharts-label]:fill-muted-foreground [&_.recharts-reference-area_.recharts-label]:fill-muted-foreground [&_.recharts-reference-dot_.recharts-label]:fill-foreground flex aspect-video justify-center text-xs [&_.recharts-dot[stroke='#fff']]:stroke-transparent [&_.recharts-layer]:outline-hidden [&_.recharts-sector]:outline-hidden [&_.recharts-sector[stroke='#fff']]:stroke-transparent [&_.recharts-surface]:outline-hidden [&_.recharts-brush>rect]:fill-background [&_.recharts-brush>rect]:stroke-border [&_.recharts-brush-slide]:fill-muted-foreground [&_.recharts-brush-traveller>rect]:fill-muted-foreground [&_.recharts-brush-texts_text]:fill-muted-foreground rounded-md has-[.recharts-surface:focus-visible]:ring-[3px] has-[.recharts-surface:focus-visible]:ring-ring/50",
           className
         )}
         {...props}
@@ -116,6 +132,9 @@ function ChartTooltipContent({
   color,
   nameKey,
   labelKey,
+  axisByKey,
+  activeKey,
+  valueFormat,
 }: React.ComponentProps<typeof RechartsPrimitive.Tooltip> &
   React.ComponentProps<"div"> & {
     hideLabel?: boolean
@@ -123,8 +142,11 @@ function ChartTooltipContent({
     indicator?: "line" | "dot" | "dashed"
     nameKey?: string
     labelKey?: string
+    axisByKey?: Record<string, YAxisSide>
+    activeKey?: string // Series focused from the keyboard, highlighted
+    valueFormat?: ValueFormat // Replaces every series' format, e.g. "percent" for shares of 100
   }) {
-  const { config } = useChart()
+  const { config, locale } = useChart()
 
   const tooltipLabel = React.useMemo(() => {
     if (hideLabel || !payload?.length) {
@@ -183,13 +205,27 @@ function ChartTooltipContent({
             const key = `${nameKey || item.name || item.dataKey || "value"}`
             const itemConfig = getPayloadConfigFromPayload(config, item, key)
             const indicatorColor = color || item.payload.fill || item.color
+            const seriesValueConfig = getChartValueConfig(config, itemConfig, item.dataKey)
+            const valueConfig = valueFormat ? { format: valueFormat } : seriesValueConfig
+            // Downsampled ranges are raw values, in the series' own format
+            const rawRange = getRawValueRange(item.payload, item.dataKey)
+            // Missing in the data, even when drawn as 0 or filled in
+            const isMissing =
+              item.value === null ||
+              item.value === undefined ||
+              (typeof item.value === "number" && isMissingValue(item.value)) ||
+              isMissingCell(item.payload, item.dataKey)
 
             return (
               <div
                 key={item.dataKey}
+                data-active={activeKey === `${item.dataKey}` || undefined}
                 className={cn(
                   "[&>svg]:text-muted-foreground flex w-full flex-wrap items-stretch gap-2 [&>svg]:h-2.5 [&>svg]:w-2.5",
-                  indicator === "dot" && "items-center"
+                  indicator === "dot" && "items-center",
+                  activeKey &&
+                    activeKey !== `${item.dataKey}` &&
+                    "opacity-50"
                 )}
               >
                 {formatter && item?.value !== undefined && item.name ? (
@@ -230,11 +266,22 @@ function ChartTooltipContent({
                         {nestLabel ? tooltipLabel : null}
                         <span className="text-muted-foreground">
                           {itemConfig?.label || item.name}
+                          <ChartAxisBadge side={axisByKey?.[`${item.dataKey}`]} />
                         </span>
                       </div>
-                      {item.value && (
+                      {isMissing ? (
+                        <span className="text-muted-foreground font-mono">
+                          —
+                        </span>
+                      ) : (
                         <span className="text-foreground font-mono font-medium tabular-nums">
-                          {item.value.toLocaleString()}
+                          {formatChartValue(item.value, valueConfig, locale)}
+                          {rawRange && (
+                            <span className="text-muted-foreground ml-1 font-normal">
+                              ({formatChartValue(rawRange[0], seriesValueConfig, locale)}
+                              –{formatChartValue(rawRange[1], seriesValueConfig, locale)})
+                            </span>
+                          )}
                         </span>
                       )}
                     </div>
@@ -256,10 +303,19 @@ function ChartLegendContent({
   payload,
   verticalAlign = "bottom",
   nameKey,
+  hiddenKeys,
+  onItemClick,
+  axisByKey,
 }: React.ComponentProps<"div"> &
   Pick<RechartsPrimitive.LegendProps, "payload" | "verticalAlign"> & {
     hideIcon?: boolean
     nameKey?: string
+    hiddenKeys?: string[]
+    axisByKey?: Record<string, YAxisSide>
+    onItemClick?: (
+      dataKey: string,
+      event: React.MouseEvent | React.KeyboardEvent
+    ) => void
   }) {
   const { config } = useChart()
 
@@ -280,12 +336,31 @@ function ChartLegendContent({
         .map((item) => {
           const key = `${nameKey || item.dataKey || "value"}`
           const itemConfig = getPayloadConfigFromPayload(config, item, key)
+          const dataKey = `${item.dataKey ?? item.value}`
+          const isHidden = hiddenKeys?.includes(dataKey) ?? false
 
           return (
             <div
               key={item.value}
+              role={onItemClick ? "button" : undefined}
+              tabIndex={onItemClick ? 0 : undefined}
+              aria-pressed={onItemClick ? !isHidden : undefined}
+              title={onItemClick ? "Click to toggle, shift-click to isolate" : undefined}
+              onClick={onItemClick ? (event) => onItemClick(dataKey, event) : undefined}
+              onKeyDown={
+                onItemClick
+                  ? (event) => {
+                    if (event.key === "Enter" || event.key === " ") {
+                      event.preventDefault()
+                      onItemClick(dataKey, event)
+                    }
+                  }
+                  : undefined
+              }
               className={cn(
-                "[&>svg]:text-muted-foreground flex items-center gap-1.5 [&>svg]:h-3 [&>svg]:w-3"
+                "[&>svg]:text-muted-foreground flex items-center gap-1.5 [&>svg]:h-3 [&>svg]:w-3",
+                onItemClick && "cursor-pointer select-none",
+                isHidden && "opacity-40"
               )}
             >
               {itemConfig?.icon && !hideIcon ? (
@@ -299,6 +374,10 @@ function ChartLegendContent({
                 />
               )}
               {itemConfig?.label}
+              {itemConfig?.unit && (
+                <span className="text-muted-foreground">({itemConfig.unit})</span>
+              )}
+              <ChartAxisBadge side={axisByKey?.[dataKey]} />
             </div>
           )
         })}
@@ -306,6 +385,104 @@ function ChartLegendContent({
   )
 }
 
+// Marks which Y axis a series is plotted against on dual-axis charts.
+function ChartAxisBadge({ side }: { side?: YAxisSide }) {
+  if (!side) {
+    return null
+  }
+
+  return (
+    <span
+      title={`${side} axis`}
+      aria-label={`${side} axis`}
+      className="text-muted-foreground ml-1 text-[10px] font-medium uppercase"
+    >
+      {side === "left" ? "L" : "R"}
+    </span>
+  )
+}
+
+// Formats a value with the formatting fields of a chart config entry.
+function formatChartValue(
+  value: unknown,
+  itemConfig: ChartConfig[string] | undefined,
+  locale?: string
+) {
+  if (typeof value !== "number") {
+    return Array.isArray(value) ? value.join(" – ") : String(value ?? "")
+  }
+
+  if (itemConfig?.valueFormatter) {
+    return itemConfig.valueFormatter(value)
+  }
+
+  const { format, unit, precision } = itemConfig ?? {}
+
+  if (!format && unit === undefined && precision === undefined) {
+    return value.toLocaleString(locale)
+  }
+
+  const spec = resolveValueFormat(format ?? "full")
+  const digits =
+    precision !== undefined
+      ? { minimumFractionDigits: precision, maximumFractionDigits: precision }
+      : {}
+
+  // Unit formats take the entry's unit as their Intl unit
+  if (spec.type === "unit" && !spec.unit && unit) {
+    return formatValue(value, { ...spec, ...digits, unit }, { locale })
+  }
+
+  const formatted = formatValue(value, { ...spec, ...digits }, { locale })
+
+  return unit ? `${formatted} ${unit}` : formatted
+}
+
+// Entry that formats a payload value: the item's own entry when it sets any
+// formatting field (e.g. per-series), otherwise the entry for its dataKey (e.g. pie slices).
+function getChartValueConfig(
+  config: ChartConfig,
+  itemConfig: ChartConfig[string] | undefined,
+  dataKey: unknown
+) {
+  const hasFormatting = (entry?: ChartConfig[string]) =>
+    entry !== undefined &&
+    (entry.format !== undefined ||
+      entry.unit !== undefined ||
+      entry.precision !== undefined ||
+      entry.valueFormatter !== undefined)
+
+  if (hasFormatting(itemConfig)) {
+    return itemConfig
+  }
+
+  const dataKeyConfig = config[`${dataKey}`]
+  return hasFormatting(dataKeyConfig) ? dataKeyConfig : itemConfig
+}
+
+// Lowest and highest raw value behind an averaged (downsampled) point
+function getRawValueRange(
+  payload: unknown,
+  dataKey: unknown
+): [number, number] | null {
+  const source = getDownsampleSource(payload)
+  if (!source || dataKey === undefined) {
+    return null
+  }
+
+  let min = Infinity
+  let max = -Infinity
+  source.forEach((row) => {
+    const value = row[`${dataKey}`]
+    if (typeof value === "number") {
+      min = Math.min(min, value)
+      max = Math.max(max, value)
+    }
+  })
+
+  return min < max ? [min, max] : null
+}
+
 // Helper to extract item config from a payload.
 function getPayloadConfigFromPayload(
   config: ChartConfig,
@@ -347,9 +524,12 @@ function getPayloadConfigFromPayload(
 
 export {
   ChartContainer,
+  useChart,
   ChartTooltip,
   ChartTooltipContent,
   ChartLegend,
   ChartLegendContent,
   ChartStyle,
+  formatChartValue,
+  getChartValueConfig,
 }
@@ -0,0 +1,322 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { resolveChartStatus } from "../components/ui/chart-state"
+import { getAnnotationValues } from "../components/ui/chart-annotations"
+import type {
+    AreaChartComponentProps,
+    AreaChartVariant,
+    AreaConfig,
+    AreaCurveType,
+    AreaTimeRangeConfig,
+    AreaYAxisConfig,
+} from "../components/AreaChart/AreaChart"
+import { getSeriesAxisMap, hasRightYAxis, type YAxisSide } from "../lib/axis"
+import { DEFAULT_TIME_RANGE_PRESETS, filterByTimeRange, toTimeSeries } from "../lib/date"
+import { copyMissingCells, isMissingValue, resolveMissingValues } from "../lib/missing"
+import { dropNonPositiveValues, getLogScaleKeys, getLogScaleNotice, type AxisScale } from "../lib/scale"
+import { getSeriesExtent, resolveAxisDomain } from "../lib/domain"
+import { diagnoseCartesianData } from "../lib/diagnostics"
+import { useChartZoom } from "./use-chart-zoom"
+import { useChartTransform } from "./use-chart-transform"
+import { useChartSync } from "./use-chart-sync"
+import { useSeriesVisibility } from "./use-series-visibility"
+import { useTimeAxis } from "./use-time-axis"
+import { resolveStreamingConfig, useDomainHysteresis, type HeldDomains } from "./use-chart-stream"
+import { useDownsample } from "./use-downsample"
+import { shouldDiagnoseChart, useChartDiagnostics } from "./use-chart-diagnostics"
+
+export type UseAreaChartModelOptions = Pick<
+    AreaChartComponentProps,
+    | 'data'
+    | 'chartConfig'
+    | 'transform'
+    | 'variant'
+    | 'areas'
+    | 'xAxisKey'
+    | 'xAxisType'
+    | 'xAxisFormatter'
+    | 'locale'
+    | 'yAxisConfig'
+    | 'rightYAxisConfig'
+    | 'showLegend'
+    | 'showDots'
+    | 'showActiveDot'
+    | 'useGradient'
+    | 'missingValues'
+    | 'zoom'
+    | 'range'
+    | 'onRangeChange'
+    | 'timeRange'
+    | 'hiddenSeries'
+    | 'onHiddenSeriesChange'
+    | 'syncId'
+    | 'streaming'
+    | 'downsample'
+    | 'annotations'
+    | 'status'
+    | 'onDiagnostics'
+>
+
+const getCurveType = (variant: AreaChartVariant): AreaCurveType => {
+    switch (variant) {
+        case 'linear':
+            return 'linear'
+        case 'step':
+            return 'step'
+        default:
+            return 'monotone'
+    }
+}
+
+const isStackedVariant = (variant: AreaChartVariant): boolean => {
+    return variant === 'stacked' || variant === 'stacked-expanded'
+}
+
+// Log can't draw a stack's zero baseline and expanded shares are 0-100%, those axes stay linear
+const resolveAreaScale = (variant: AreaChartVariant, areas: AreaConfig[], scale?: AxisScale): AxisScale | undefined => {
+    if (variant === 'stacked-expanded') return undefined
+    if (scale === 'log' && areas.some(area => area.stackId)) return undefined
+    return scale
+}
+
+// Everything AreaChartComponent computes before drawing: series, variant flags, rows, zoom, domains and ticks.
+// Attach containerRef to the element the chart fills so downsampling can measure it
+export const useAreaChartModel = ({
+    data: sourceData,
+    chartConfig: sourceConfig,
+    transform,
+    variant = 'default',
+    areas,
+    xAxisKey = "month",
+    xAxisType = 'category',
+    xAxisFormatter,
+    locale,
+    yAxisConfig,
+    rightYAxisConfig,
+    showLegend,
+    showDots,
+    showActiveDot = true,
+    useGradient,
+    missingValues = 'gap',
+    zoom,
+    range,
+    onRangeChange,
+    timeRange,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    streaming,
+    downsample,
+    annotations,
+    status,
+    onDiagnostics,
+}: UseAreaChartModelOptions) => {
+    // Long-format rows are reshaped first; generated series take chartConfig entries as overrides
+    const { data, chartConfig } = useChartTransform({ data: sourceData, chartConfig: sourceConfig, transform })
+
+    // Determine curve type based on variant
+    const curveType = getCurveType(variant)
+
+    // Determine if stacked
+    const isStacked = isStackedVariant(variant)
+
+    // Auto determine showLegend based on variant
+    const shouldShowLegend = showLegend ?? (variant === 'legend' || variant === 'stacked' || variant === 'stacked-expanded' || variant === 'interactive')
+
+    // Auto determine showDots based on variant
+    const shouldShowDots = showDots ?? (variant === 'interactive')
+
+    // Auto determine showActiveDot (dot only on hover)
+    const shouldShowActiveDot = showActiveDot ?? true  // Default true: show dot on hover
+
+    // Auto determine gradient based on variant
+    const shouldUseGradient = useGradient ?? (variant === 'gradient')
+
+    // Auto determine the time-range selector based on variant
+    const timeRangeConfig = useMemo<AreaTimeRangeConfig | null>(() => {
+        if (!(timeRange ?? variant === 'interactive')) return null
+        return typeof timeRange === 'object' ? timeRange : {}
+    }, [timeRange, variant])
+    const timeRangePresets = timeRangeConfig?.presets ?? DEFAULT_TIME_RANGE_PRESETS
+
+    // Controlled when `timeRange.value` is passed, uncontrolled otherwise
+    const [internalTimeRange, setInternalTimeRange] = useState(
+        timeRangeConfig?.defaultValue ?? timeRangePresets[0]?.value
+    )
+    const currentTimeRange = timeRangeConfig?.value ?? internalTimeRange
+
+    const handleTimeRangeChange = (value: string) => {
+        if (timeRangeConfig?.value === undefined) setInternalTimeRange(value)
+        timeRangeConfig?.onChange?.(value)
+    }
+
+    // Auto-generate areas from chartConfig if not provided
+    const chartAreas = useMemo<AreaConfig[]>(() => {
+        if (areas) return areas
+
+        return Object.keys(chartConfig).map((key, index) => ({
+            dataKey: key,
+            fill: shouldUseGradient ? `url(#fill${key})` : chartConfig[key].color || `var(--chart-${index + 1})`,
+            stroke: chartConfig[key].color || `var(--chart-${index + 1})`,
+            stackId: isStacked ? 'stack' : undefined,
+            type: curveType,
+            fillOpacity: shouldUseGradient ? 1 : 0.4,
+        }))
+    }, [areas, chartConfig, isStacked, curveType, shouldUseGradient])
+
+    // Dual Y axis when any area is plotted against the right axis
+    const isDualAxis = hasRightYAxis(chartAreas)
+    const axisByKey = useMemo(() => isDualAxis ? getSeriesAxisMap(chartAreas) : undefined, [isDualAxis, chartAreas])
+
+    // Y scale per axis, after the stacked and expanded fallbacks
+    const leftScale = resolveAreaScale(variant, chartAreas.filter(area => area.yAxisId !== 'right'), yAxisConfig?.scale)
+    const rightScale = resolveAreaScale(variant, chartAreas.filter(area => area.yAxisId === 'right'), rightYAxisConfig?.scale)
+
+    // Filter data to the selected time range
+    const filteredData = useMemo(() => {
+        if (!timeRangeConfig) return data
+        return filterByTimeRange(data, xAxisKey, timeRangePresets.find(preset => preset.value === currentTimeRange))
+    }, [data, xAxisKey, timeRangeConfig, timeRangePresets, currentTimeRange])
+
+    // Time axis: dates become epoch numbers so points are spaced proportionally,
+    // values <= 0 on a log axis become missing, then missing values are resolved
+    // once for rendering, stacking, domains and tooltips
+    const { seriesData, droppedValues } = useMemo(() => {
+        const rows = xAxisType === 'time' ? toTimeSeries(filteredData, xAxisKey) : filteredData
+        const logKeys = getLogScaleKeys(chartAreas, { left: leftScale, right: rightScale })
+        const { rows: scaledRows, dropped } = dropNonPositiveValues(rows, logKeys)
+        const resolved = resolveMissingValues(scaledRows, chartAreas.map(area => area.dataKey), missingValues, xAxisKey)
+        return {
+            // Zero fills can't be drawn on a log axis either, they stay gaps there
+            seriesData: missingValues === 'zero' ? dropNonPositiveValues(resolved, logKeys).rows : resolved,
+            droppedValues: dropped,
+        }
+    }, [filteredData, xAxisType, xAxisKey, chartAreas, leftScale, rightScale, missingValues])
+
+    // Cursor, zoom range and hidden series shared with a ChartSyncProvider
+    const sync = useChartSync({ syncId, data: seriesData, xAxisKey, range, onRangeChange, hiddenSeries, onHiddenSeriesChange })
+
+    // Series visibility toggled from the legend
+    const seriesKeys = useMemo(() => chartAreas.map(area => area.dataKey), [chartAreas])
+    const visibility = useSeriesVisibility({ seriesKeys, hiddenSeries: sync.hiddenSeries, onHiddenSeriesChange: sync.onHiddenSeriesChange })
+
+    // Loading, empty and error states replace the plot, header and footer stay
+    const chartStatus = resolveChartStatus(status, seriesData.length === 0)
+    const scaleNotice = getLogScaleNotice(droppedValues)
+
+    // Raw data checked against the series: console warning and badge in development, onDiagnostics in every build
+    const diagnosticsEnabled = shouldDiagnoseChart(onDiagnostics)
+    const diagnostics = useMemo(() => diagnosticsEnabled
+        ? diagnoseCartesianData(data, { seriesKeys, categoryKey: xAxisKey, checkDuplicates: xAxisType !== 'time', checkDates: xAxisType === 'time' })
+        : [], [diagnosticsEnabled, data, seriesKeys, xAxisKey, xAxisType])
+    const { showBadge: showDiagnostics } = useChartDiagnostics('AreaChartComponent', diagnostics, onDiagnostics)
+
+    // Zoom state (range, brush and drag selection) and downsampling of the plotted rows,
+    // the budget follows the width of the element containerRef is attached to
+    const containerRef = useRef<HTMLDivElement>(null)
+    const sampling = useDownsample({ downsample, containerRef })
+    const zoomState = useChartZoom({
+        data: seriesData,
+        xAxisKey,
+        zoom,
+        range: sync.range,
+        onRangeChange: sync.onRangeChange,
+        downsample: sampling,
+        sampleKeys: visibility.visibleKeys,
+    })
+
+    // Ticks and labels adapt to the visible span in time mode
+    const timeAxis = useTimeAxis({ data: zoomState.visibleData, xAxisKey, xAxisType, locale, xAxisFormatter })
+
+    // Prepare data for stacked-expanded (normalize to 100%)
+    const normalizedData = useMemo(() => {
+        if (variant !== 'stacked-expanded') return seriesData
+
+        return seriesData.map(item => {
+            const newItem = { ...item }
+            const dataKeys = visibility.visibleKeys
+            const total = dataKeys.reduce((sum, key) => sum + (isMissingValue(item[key]) ? 0 : item[key] as number), 0)
+
+            // Missing values stay missing, they are neither 0% nor part of the total
+            if (total > 0) {
+                dataKeys.forEach(key => {
+                    if (!isMissingValue(item[key])) newItem[key] = (item[key] as number / total) * 100
+                })
+            }
+            return copyMissingCells(item, newItem)
+        })
+    }, [seriesData, variant, visibility.visibleKeys])
+
+    // Visible slice of the normalized data when the brush is not doing the slicing
+    const zoomedData = useMemo(() => {
+        if (!zoomState.range) return normalizedData
+        return normalizedData.slice(zoomState.range.startIndex, zoomState.range.endIndex + 1)
+    }, [normalizedData, zoomState.range])
+
+    // Rows handed to Recharts: the whole data with the Brush, the window otherwise, downsampled if enabled
+    const chartData = useMemo(() => zoomState.toChartData(normalizedData), [zoomState.toChartData, normalizedData])
+
+    // Y-axis scale, domain and ticks from the visible areas (stack totals included, annotations on their axis),
+    // held between updates while streaming; expanded stays 0-100%
+    const streamingConfig = resolveStreamingConfig(streaming)
+    const hysteresis = useDomainHysteresis(streamingConfig)
+    const yAxes = useMemo(() => {
+        const held: HeldDomains = {}
+        const visibleAreas = chartAreas.filter(area => !visibility.isHidden(area.dataKey))
+
+        const resolveAxis = (side: YAxisSide, config: AreaYAxisConfig | undefined, scale: AxisScale | undefined, extraValues: number[] = []) => {
+            if (variant === 'stacked-expanded') return resolveAxisDomain(null, { tickCount: config?.tickCount, domain: [0, 100] })
+
+            const sideAreas = visibleAreas.filter(area => (area.yAxisId ?? 'left') === side)
+            const extent = getSeriesExtent(zoomedData, sideAreas, extraValues)
+            return resolveAxisDomain(extent, { ...config, includeZero: config?.includeZero ?? true, scale }, domain => {
+                held[side] = hysteresis.hold(side, domain)
+                return held[side]
+            })
+        }
+
+        return {
+            left: resolveAxis('left', yAxisConfig, leftScale, getAnnotationValues(annotations)),
+            right: isDualAxis ? resolveAxis('right', rightYAxisConfig, rightScale, getAnnotationValues(annotations, 'right')) : undefined,
+            held,
+        }
+    }, [chartAreas, visibility.isHidden, zoomedData, variant, yAxisConfig, rightYAxisConfig, leftScale, rightScale, annotations, isDualAxis, hysteresis.hold])
+
+    // The held domains are what the next streaming update compares against
+    useEffect(() => hysteresis.commit(yAxes.held), [yAxes.held, hysteresis.commit])
+
+    return {
+        containerRef,
+        data,
+        chartConfig,
+        curveType,
+        isStacked,
+        shouldShowLegend,
+        shouldShowDots,
+        shouldShowActiveDot,
+        shouldUseGradient,
+        timeRangeConfig,
+        timeRangePresets,
+        currentTimeRange,
+        handleTimeRangeChange,
+        chartAreas,
+        isDualAxis,
+        axisByKey,
+        seriesData,
+        droppedValues,
+        scaleNotice,
+        diagnostics,
+        showDiagnostics,
+        sync,
+        visibility,
+        chartStatus,
+        zoomState,
+        timeAxis,
+        normalizedData,
+        zoomedData,
+        chartData,
+        streamingConfig,
+        yAxes,
+    }
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { useMemo, useRef } from "react"
+import { resolveChartStatus } from "../components/ui/chart-state"
+import { getAnnotationValues } from "../components/ui/chart-annotations"
+import type {
+    BarChartComponentProps,
+    BarChartVariant,
+    BarConfig,
+    BarYAxisConfig,
+} from "../components/BarChart/BarChart"
+import { getSeriesAxisMap, hasRightYAxis, type YAxisSide } from "../lib/axis"
+import { toTimeSeries } from "../lib/date"
+import { resolveMissingValues } from "../lib/missing"
+import { dropNonPositiveValues, getLogScaleKeys, getLogScaleNotice } from "../lib/scale"
+import { getSeriesExtent, resolveAxisDomain } from "../lib/domain"
+import { diagnoseCartesianData } from "../lib/diagnostics"
+import { useChartZoom } from "./use-chart-zoom"
+import { useChartTransform } from "./use-chart-transform"
+import { useChartSync } from "./use-chart-sync"
+import { useSeriesVisibility } from "./use-series-visibility"
+import { useTimeAxis } from "./use-time-axis"
+import { useDownsample } from "./use-downsample"
+import { shouldDiagnoseChart, useChartDiagnostics } from "./use-chart-diagnostics"
+
+export type UseBarChartModelOptions = Pick<
+    BarChartComponentProps,
+    | 'data'
+    | 'chartConfig'
+    | 'transform'
+    | 'variant'
+    | 'bars'
+    | 'layout'
+    | 'barRadius'
+    | 'xAxisKey'
+    | 'xAxisType'
+    | 'xAxisFormatter'
+    | 'locale'
+    | 'yAxisConfig'
+    | 'rightYAxisConfig'
+    | 'showLegend'
+    | 'showLabels'
+    | 'missingValues'
+    | 'zoom'
+    | 'range'
+    | 'onRangeChange'
+    | 'hiddenSeries'
+    | 'onHiddenSeriesChange'
+    | 'syncId'
+    | 'downsample'
+    | 'annotations'
+    | 'status'
+    | 'onDiagnostics'
+>
+
+const getDefaultRadius = (variant: BarChartVariant): number | [number, number, number, number] => {
+    switch (variant) {
+        case 'stacked':
+        case 'stacked-legend':
+            return 0
+        case 'horizontal':
+            return [0, 4, 4, 0]
+        default:
+            return 8
+    }
+}
+
+const getDefaultLayout = (variant: BarChartVariant): 'vertical' | 'horizontal' | undefined => {
+    // In Recharts: 'vertical' layout = horizontal bars (bars grow to the right)
+    // undefined/default = vertical bars (bars grow upward) 
+    return variant === 'horizontal' ? 'vertical' : undefined
+}
+
+// Everything BarChartComponent computes before drawing: series, layout and variant flags, rows, zoom, domains and ticks.
+// Attach containerRef to the element the chart fills so downsampling can measure it
+export const useBarChartModel = ({
+    data: sourceData,
+    chartConfig: sourceConfig,
+    transform,
+    variant = 'default',
+    bars,
+    layout,
+    barRadius,
+    xAxisKey = "month",
+    xAxisType = 'category',
+    xAxisFormatter,
+    locale,
+    yAxisConfig,
+    rightYAxisConfig,
+    showLegend,
+    showLabels,
+    missingValues = 'gap',
+    zoom,
+    range,
+    onRangeChange,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    downsample,
+    annotations,
+    status,
+    onDiagnostics,
+}: UseBarChartModelOptions) => {
+    // Long-format rows are reshaped first; generated series take chartConfig entries as overrides
+    const { data, chartConfig } = useChartTransform({ data: sourceData, chartConfig: sourceConfig, transform })
+
+    // Determine layout based on variant
+    // Note: In Recharts, layout="vertical" = horizontal bars (bars grow to the right)
+    const isHorizontalBars = variant === 'horizontal' || layout === 'vertical'
+    const chartLayout = layout ?? getDefaultLayout(variant)
+
+    // Determine radius
+    const defaultRadius = barRadius ?? getDefaultRadius(variant)
+
+    // Auto determine showLegend based on variant
+    const shouldShowLegend = showLegend ?? (variant === 'stacked-legend' || variant === 'multiple')
+
+    // Auto determine showLabels based on variant
+    const shouldShowLabels = showLabels ?? (variant === 'label')
+
+    // Auto-generate bars from chartConfig if not provided
+    const chartBars = useMemo<BarConfig[]>(() => {
+        if (bars) return bars
+
+        return Object.keys(chartConfig).map((key, index) => ({
+            dataKey: key,
+            fill: chartConfig[key].color || `var(--chart-${index + 1})`,
+            radius: defaultRadius,
+            stackId: (variant === 'stacked' || variant === 'stacked-legend') ? 'stack' : undefined,
+        }))
+    }, [bars, chartConfig, variant, defaultRadius])
+
+    // Dual Y axis when any bar is plotted against the right axis (vertical bars only)
+    const isDualAxis = !isHorizontalBars && hasRightYAxis(chartBars)
+    const axisByKey = useMemo(() => isDualAxis ? getSeriesAxisMap(chartBars) : undefined, [isDualAxis, chartBars])
+
+    // Time scale needs the category axis on X
+    const isTimeAxis = xAxisType === 'time' && !isHorizontalBars
+
+    // Value scale per axis, horizontal bars have a single value axis
+    const leftScale = yAxisConfig?.scale
+    const rightScale = isHorizontalBars ? yAxisConfig?.scale : rightYAxisConfig?.scale
+
+    // Time axis: dates become epoch numbers so bars are spaced proportionally,
+    // values <= 0 on a log axis become missing, then missing values are resolved
+    // once for rendering, stacking and tooltips
+    const { seriesData, droppedValues } = useMemo(() => {
+        const rows = isTimeAxis ? toTimeSeries(data, xAxisKey) : data
+        const logKeys = getLogScaleKeys(chartBars, { left: leftScale, right: rightScale })
+        const { rows: scaledRows, dropped } = dropNonPositiveValues(rows, logKeys)
+        const resolved = resolveMissingValues(scaledRows, chartBars.map(bar => bar.dataKey), missingValues, xAxisKey)
+        return {
+            // Zero fills can't be drawn on a log axis either, they stay gaps there
+            seriesData: missingValues === 'zero' ? dropNonPositiveValues(resolved, logKeys).rows : resolved,
+            droppedValues: dropped,
+        }
+    }, [data, isTimeAxis, xAxisKey, chartBars, leftScale, rightScale, missingValues])
+
+    // Cursor, zoom range and hidden series shared with a ChartSyncProvider
+    const sync = useChartSync({ syncId, data: seriesData, xAxisKey, range, onRangeChange, hiddenSeries, onHiddenSeriesChange })
+
+    // Series visibility toggled from the legend
+    const seriesKeys = useMemo(() => chartBars.map(bar => bar.dataKey), [chartBars])
+    const visibility = useSeriesVisibility({ seriesKeys, hiddenSeries: sync.hiddenSeries, onHiddenSeriesChange: sync.onHiddenSeriesChange })
+
+    // Loading, empty and error states replace the plot, header and footer stay
+    const chartStatus = resolveChartStatus(status, seriesData.length === 0)
+    const scaleNotice = getLogScaleNotice(droppedValues)
+
+    // Raw data checked against the series: console warning and badge in development, onDiagnostics in every build.
+    // Mixed and negative variants only plot the first bar, horizontal bars can take their categories from yAxisConfig
+    const diagnosticsEnabled = shouldDiagnoseChart(onDiagnostics)
+    const diagnostics = useMemo(() => {
+        if (!diagnosticsEnabled) return []
+
+        const plottedKeys = variant === 'mixed' || variant === 'negative' ? [chartBars[0]?.dataKey || 'value'] : seriesKeys
+        const categoryKey = isHorizontalBars ? (yAxisConfig?.dataKey || xAxisKey) : xAxisKey
+        return diagnoseCartesianData(data, { seriesKeys: plottedKeys, categoryKey, checkDuplicates: !isTimeAxis, checkDates: isTimeAxis })
+    }, [diagnosticsEnabled, data, variant, chartBars, seriesKeys, isHorizontalBars, yAxisConfig?.dataKey, xAxisKey, isTimeAxis])
+    const { showBadge: showDiagnostics } = useChartDiagnostics('BarChartComponent', diagnostics, onDiagnostics)
+
+    // Zoom state (range, brush and drag selection, vertical bars only) and downsampling of the plotted rows
+    // The budget follows the width of the element containerRef is attached to
+    const containerRef = useRef<HTMLDivElement>(null)
+    const sampling = useDownsample({ downsample, containerRef })
+    const zoomState = useChartZoom({
+        data: seriesData,
+        xAxisKey,
+        zoom: isHorizontalBars ? false : zoom,
+        range: sync.range,
+        onRangeChange: sync.onRangeChange,
+        downsample: sampling,
+        sampleKeys: visibility.visibleKeys,
+    })
+
+    // Ticks and labels adapt to the visible span in time mode
+    const timeAxis = useTimeAxis({
+        data: zoomState.visibleData,
+        xAxisKey,
+        xAxisType: isTimeAxis ? 'time' : 'category',
+        locale,
+        xAxisFormatter,
+    })
+
+    // Value axis scale, domain and ticks from the visible bars (stack totals included, annotations on their axis);
+    // mixed and negative draw only the first bar
+    const valueAxes = useMemo(() => {
+        const drawnBars = variant === 'mixed' || variant === 'negative' ? chartBars.slice(0, 1) : chartBars
+        const visibleBars = drawnBars.filter(bar => !visibility.isHidden(bar.dataKey))
+
+        const resolveAxis = (side: YAxisSide, config: BarYAxisConfig | undefined, extraValues: number[] = []) => {
+            const sideBars = visibleBars.filter(bar => !isDualAxis || (bar.yAxisId ?? 'left') === side)
+            const extent = getSeriesExtent(zoomState.visibleData, sideBars, extraValues)
+            return resolveAxisDomain(extent, { ...config, includeZero: config?.includeZero ?? true })
+        }
+
+        return {
+            left: resolveAxis('left', yAxisConfig, getAnnotationValues(annotations)),
+            right: resolveAxis('right', isHorizontalBars ? yAxisConfig : rightYAxisConfig, isDualAxis ? getAnnotationValues(annotations, 'right') : []),
+        }
+    }, [variant, chartBars, visibility.isHidden, isDualAxis, isHorizontalBars, yAxisConfig, rightYAxisConfig, annotations, zoomState.visibleData])
+
+    return {
+        containerRef,
+        data,
+        chartConfig,
+        isHorizontalBars,
+        chartLayout,
+        defaultRadius,
+        shouldShowLegend,
+        shouldShowLabels,
+        chartBars,
+        isDualAxis,
+        axisByKey,
+        isTimeAxis,
+        seriesData,
+        droppedValues,
+        scaleNotice,
+        diagnostics,
+        showDiagnostics,
+        sync,
+        visibility,
+        chartStatus,
+        zoomState,
+        timeAxis,
+        valueAxes,
+    }
+}
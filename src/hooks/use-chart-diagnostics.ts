@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { isChartDevMode, type ChartDiagnostic } from "../lib/diagnostics"
+
+//todo: ==== Diagnostics are worth computing in development, or when the app listens for them ====
+export const shouldDiagnoseChart = (onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void) => {
+    return !!onDiagnostics || isChartDevMode()
+}
+
+// Reports a chart's diagnostics once per change: console.warn in development, onDiagnostics in every build
+export const useChartDiagnostics = (
+    chartName: string,
+    diagnostics: ChartDiagnostic[],
+    onDiagnostics?: (diagnostics: ChartDiagnostic[]) => void,
+) => {
+    // Latest values, read by the effect without re-running it on every render
+    const latestRef = useRef({ diagnostics, onDiagnostics })
+    latestRef.current = { diagnostics, onDiagnostics }
+
+    const signature = diagnostics.map(diagnostic => diagnostic.message).join('\n')
+
+    useEffect(() => {
+        const { diagnostics, onDiagnostics } = latestRef.current
+
+        if (signature && isChartDevMode()) {
+            console.warn(`[shadcn-chart] ${chartName}:\n${diagnostics.map(diagnostic => `  - ${diagnostic.message}`).join('\n')}`)
+        }
+        onDiagnostics?.(diagnostics)
+    }, [chartName, signature])
+
+    // The badge is a development aid only
+    return { showBadge: diagnostics.length > 0 && isChartDevMode() }
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useCallback, useImperativeHandle, useMemo } from "react"
+import {
+    downloadFile,
+    rasterizeSvg,
+    serializeChartSvg,
+    toCsv,
+    toExportFilename,
+} from "../lib/export"
+
+export type ChartExportFormat = 'png' | 'svg' | 'csv'
+
+export interface ChartExportConfig {
+    formats?: ChartExportFormat[]   // Menu entries, all three by default
+    filename?: string               // Base name without extension, defaults to the slugged title
+    onError?: (error: unknown, format: ChartExportFormat) => void  // A menu export failed, e.g. the PNG couldn't be rasterized
+}
+
+export interface ChartExportOptions {
+    filename?: string
+    download?: boolean      // Trigger a browser download (default true)
+}
+
+// Imperative API exposed through the `ref` prop of every chart component
+export interface ChartExportHandle {
+    exportSVG: (options?: ChartExportOptions) => string | null
+    exportPNG: (options?: ChartExportOptions & { scale?: number }) => Promise<Blob | null>
+    exportCSV: (options?: ChartExportOptions) => string
+}
+
+export interface UseChartExportOptions {
+    ref?: React.Ref<ChartExportHandle>
+    // Element that contains the ChartContainer, usually the Card
+    rootRef: React.RefObject<HTMLElement | null>
+    // Rows as currently shown (filtered, zoomed, normalized)
+    rows: Array<Record<string, unknown>>
+    columns?: string[]
+    // Column holding epoch ms on time axes, written as ISO dates
+    timeKey?: string
+    exportable?: boolean | ChartExportConfig
+    title?: string
+}
+
+export const useChartExport = ({
+    ref,
+    rootRef,
+    rows,
+    columns,
+    timeKey,
+    exportable,
+    title,
+}: UseChartExportOptions) => {
+    const config = useMemo<ChartExportConfig | null>(() => {
+        if (!exportable) return null
+        return exportable === true ? {} : exportable
+    }, [exportable])
+
+    const baseFilename = config?.filename ?? toExportFilename(title)
+
+    const exportSVG = useCallback(({ filename = baseFilename, download = true }: ChartExportOptions = {}) => {
+        const svg = serializeChartSvg(rootRef.current)
+
+        if (svg && download) downloadFile(svg, `${filename}.svg`, 'image/svg+xml;charset=utf-8')
+
+        return svg
+    }, [rootRef, baseFilename])
+
+    const exportPNG = useCallback(async ({ filename = baseFilename, download = true, scale }: ChartExportOptions & { scale?: number } = {}) => {
+        const svg = serializeChartSvg(rootRef.current)
+        if (!svg || !rootRef.current) return null
+
+        // Paint the card background so the PNG isn't transparent
+        const background = window.getComputedStyle(rootRef.current).backgroundColor
+        const blob = await rasterizeSvg(svg, { scale, background })
+
+        if (blob && download) downloadFile(blob, `${filename}.png`)
+
+        return blob
+    }, [rootRef, baseFilename])
+
+    const exportCSV = useCallback(({ filename = baseFilename, download = true }: ChartExportOptions = {}) => {
+        const csvRows = timeKey
+            ? rows.map(row => {
+                const value = row[timeKey]
+                return typeof value === 'number' ? { ...row, [timeKey]: new Date(value).toISOString() } : row
+            })
+            : rows
+        const csv = toCsv(csvRows, columns)
+
+        if (download) downloadFile(csv, `${filename}.csv`, 'text/csv;charset=utf-8')
+
+        return csv
+    }, [rows, columns, timeKey, baseFilename])
+
+    useImperativeHandle(ref, () => ({ exportSVG, exportPNG, exportCSV }), [exportSVG, exportPNG, exportCSV])
+
+    // Menu handler, one entry per format; failures go to onError, or reject the call when there's none
+    const onError = config?.onError
+    const exportAs = useCallback(async (format: ChartExportFormat) => {
+        try {
+            if (format === 'svg') exportSVG()
+            if (format === 'png') await exportPNG()
+            if (format === 'csv') exportCSV()
+        } catch (error) {
+            if (!onError) throw error
+            onError(error, format)
+        }
+    }, [exportSVG, exportPNG, exportCSV, onError])
+
+    return {
+        config,
+        exportAs,
+        exportSVG,
+        exportPNG,
+        exportCSV,
+    }
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+export interface UseChartKeyboardOptions {
+    length: number          // Points (categories or slices) currently shown
+    seriesKeys?: string[]   // Visible series, cycled with up/down
+}
+
+// Who drives the tooltip: the keyboard cursor, nobody (Escape or blur), or the pointer
+type TooltipOwner = 'keyboard' | 'dismissed' | 'pointer'
+
+export const useChartKeyboard = ({
+    length,
+    seriesKeys = [],
+}: UseChartKeyboardOptions) => {
+    const [focused, setFocused] = useState(false)
+    const [owner, setOwner] = useState<TooltipOwner>('pointer')
+    const [index, setIndex] = useState(0)
+    const [seriesIndex, setSeriesIndex] = useState(0)
+
+    // Keep the cursor inside the data when it shrinks (zoom, filters, hidden series)
+    useEffect(() => {
+        setIndex(current => Math.min(current, Math.max(length - 1, 0)))
+    }, [length])
+
+    useEffect(() => {
+        setSeriesIndex(current => Math.min(current, Math.max(seriesKeys.length - 1, 0)))
+    }, [seriesKeys.length])
+
+    const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+        if (!length) return
+
+        const moves: Record<string, () => void> = {
+            ArrowRight: () => setIndex(current => Math.min(current + 1, length - 1)),
+            ArrowLeft: () => setIndex(current => Math.max(current - 1, 0)),
+            Home: () => setIndex(0),
+            End: () => setIndex(length - 1),
+            ArrowDown: () => setSeriesIndex(current => seriesKeys.length ? (current + 1) % seriesKeys.length : 0),
+            ArrowUp: () => setSeriesIndex(current => seriesKeys.length ? (current - 1 + seriesKeys.length) % seriesKeys.length : 0),
+            Escape: () => setOwner('dismissed'),
+        }
+
+        const move = moves[event.key]
+        if (!move) return
+
+        // Captured before Recharts' own arrow-key handler so the two don't fight
+        event.preventDefault()
+        event.stopPropagation()
+        if (event.key !== 'Escape') setOwner('keyboard')
+        move()
+    }, [length, seriesKeys.length])
+
+    const handleBlur = useCallback((event: React.FocusEvent) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+            setFocused(false)
+            setOwner('dismissed')
+        }
+    }, [])
+
+    const isActive = focused && owner === 'keyboard' && length > 0
+    const activeIndex = isActive ? Math.min(index, length - 1) : null
+    const activeSeries = isActive ? seriesKeys[seriesIndex] : undefined
+
+    return {
+        focused,
+        activeIndex,
+        activeSeries,
+        // Spread on the element wrapping the chart surface
+        containerProps: {
+            onKeyDownCapture: handleKeyDown,
+            onFocus: (event: React.FocusEvent) => {
+                // Keyboard focus only, a click shouldn't pin the tooltip
+                if (!(event.target as Element).matches?.(':focus-visible')) return
+                setFocused(true)
+                setOwner('keyboard')
+            },
+            onBlur: handleBlur,
+            // Hovering hands the tooltip back to the mouse: no keyboard index, so Recharts has no defaultIndex to re-apply
+            onMouseMove: () => setOwner('pointer'),
+        },
+        // Spread on the Recharts Tooltip: shows it at the focused point, hides it after blur or Escape
+        tooltipProps: isActive
+            ? { active: true, defaultIndex: activeIndex ?? undefined }
+            : owner === 'dismissed' ? { active: false } : {},
+    }
+}
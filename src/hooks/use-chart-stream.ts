@@ -0,0 +1,145 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toDate } from "../lib/date"
+
+export interface ChartStreamWindow {
+    xAxisKey?: string       // Date key read by maxDuration (default "date")
+    maxPoints?: number      // Keep at most this many points
+    maxDuration?: number    // Keep points within this many ms of the newest one
+}
+
+export interface UseChartStreamOptions<T> extends ChartStreamWindow {
+    initialData?: T[]
+    throttleMs?: number     // Appends are batched into one render per interval (default 250)
+}
+
+export interface ChartStreamingConfig {
+    // Share of the held y-span the data must stop using before the axis narrows (default 0.25)
+    hysteresis?: number
+}
+
+//todo: ==== Drop points that fell out of the window, oldest first ====
+export const trimStreamWindow = <T extends Record<string, unknown>>(
+    data: T[],
+    { xAxisKey = 'date', maxPoints, maxDuration }: ChartStreamWindow,
+): T[] => {
+    let start = maxPoints !== undefined ? Math.max(0, data.length - maxPoints) : 0
+
+    if (maxDuration !== undefined && data.length) {
+        const newest = toDate(data[data.length - 1][xAxisKey])?.getTime()
+
+        if (newest !== undefined) {
+            while (start < data.length - 1) {
+                const time = toDate(data[start][xAxisKey])?.getTime()
+                if (time === undefined || newest - time <= maxDuration) break
+                start++
+            }
+        }
+    }
+
+    return start > 0 ? data.slice(start) : data
+}
+
+//todo: ==== Y-domain hysteresis: widen at once, narrow only once the data leaves enough of the held span unused ====
+export const holdDomain = (
+    next: [number, number],
+    previous: [number, number] | undefined,
+    threshold = 0.25,
+): [number, number] => {
+    if (!previous) return next
+
+    if (next[0] < previous[0] || next[1] > previous[1]) {
+        return [Math.min(previous[0], next[0]), Math.max(previous[1], next[1])]
+    }
+
+    const heldSpan = previous[1] - previous[0]
+    return next[1] - next[0] < heldSpan * (1 - threshold) ? next : previous
+}
+
+export type HeldDomains = Partial<Record<string, [number, number]>>
+
+const isSameDomains = (a: HeldDomains, b: HeldDomains) => {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length
+        && keys.every(key => a[key]?.[0] === b[key]?.[0] && a[key]?.[1] === b[key]?.[1])
+}
+
+// Holds each axis' domain between updates while streaming, a no-op otherwise.
+// `hold` only reads the domains committed by the last update; pass the domains it returned
+// to `commit` from an effect so the next update compares against them
+export const useDomainHysteresis = (streaming: ChartStreamingConfig | null) => {
+    const [held, setHeld] = useState<HeldDomains>({})
+    const threshold = streaming?.hysteresis ?? 0.25
+    const enabled = streaming !== null
+
+    const hold = useCallback((axisId: string, next: [number, number]) => {
+        return enabled ? holdDomain(next, held[axisId], threshold) : next
+    }, [enabled, threshold, held])
+
+    const commit = useCallback((domains: HeldDomains) => {
+        if (!enabled) return
+        setHeld(previous => isSameDomains(previous, domains) ? previous : domains)
+    }, [enabled])
+
+    return { hold, commit }
+}
+
+const DEFAULT_STREAMING_CONFIG: ChartStreamingConfig = {}
+
+export const resolveStreamingConfig = (streaming?: boolean | ChartStreamingConfig): ChartStreamingConfig | null => {
+    if (!streaming) return null
+    return typeof streaming === 'object' ? streaming : DEFAULT_STREAMING_CONFIG
+}
+
+// Sliding-window buffer for live data: append points as they arrive, the
+// returned `data` updates at most once per `throttleMs`
+export const useChartStream = <T extends Record<string, string | number | null>>({
+    initialData = [],
+    xAxisKey,
+    maxPoints,
+    maxDuration,
+    throttleMs = 250,
+}: UseChartStreamOptions<T> = {}) => {
+    const windowRef = useRef<ChartStreamWindow>({ xAxisKey, maxPoints, maxDuration })
+    windowRef.current = { xAxisKey, maxPoints, maxDuration }
+
+    const bufferRef = useRef<T[]>(trimStreamWindow(initialData, windowRef.current))
+    const [data, setData] = useState<T[]>(bufferRef.current)
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const lastFlushRef = useRef(0)
+
+    const flush = useCallback(() => {
+        if (timerRef.current !== null) clearTimeout(timerRef.current)
+        timerRef.current = null
+        lastFlushRef.current = Date.now()
+        setData(bufferRef.current)
+    }, [])
+
+    // Leading render right away, then at most one per interval
+    const scheduleFlush = useCallback(() => {
+        if (timerRef.current !== null) return
+        const wait = Math.max(0, throttleMs - (Date.now() - lastFlushRef.current))
+        timerRef.current = setTimeout(flush, wait)
+    }, [throttleMs, flush])
+
+    const append = useCallback((points: T | T[]) => {
+        const next = Array.isArray(points) ? points : [points]
+        if (!next.length) return
+
+        bufferRef.current = trimStreamWindow([...bufferRef.current, ...next], windowRef.current)
+        scheduleFlush()
+    }, [scheduleFlush])
+
+    // Replace the whole buffer, e.g. after a reconnect
+    const reset = useCallback((next: T[] = []) => {
+        bufferRef.current = trimStreamWindow(next, windowRef.current)
+        flush()
+    }, [flush])
+
+    useEffect(() => () => {
+        if (timerRef.current !== null) clearTimeout(timerRef.current)
+    }, [])
+
+    return { data, append, reset, flush }
+}
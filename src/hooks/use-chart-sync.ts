@@ -0,0 +1,54 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { useChartSyncContext } from "../components/ui/chart-sync"
+import { rangeToValues, valuesToRange, type ChartRange } from "./use-chart-zoom"
+
+export interface UseChartSyncOptions {
+    syncId?: string         // Own syncId, wins over the provider's
+    data: Array<Record<string, string | number | null>>
+    xAxisKey: string
+    range?: ChartRange | null
+    onRangeChange?: (range: ChartRange | null) => void
+    hiddenSeries?: string[]
+    onHiddenSeriesChange?: (hiddenSeries: string[]) => void
+}
+
+// Resolves the props fed to useChartZoom and useSeriesVisibility: inside a
+// ChartSyncProvider the shared state is used unless the chart is controlled itself
+export const useChartSync = ({
+    syncId,
+    data,
+    xAxisKey,
+    range,
+    onRangeChange,
+    hiddenSeries,
+    onHiddenSeriesChange,
+}: UseChartSyncOptions) => {
+    const sync = useChartSyncContext()
+    const shareRange = !!sync?.syncRange && range === undefined
+    const shareVisibility = !!sync?.syncVisibility && hiddenSeries === undefined
+
+    const sharedRange = useMemo(() => {
+        return shareRange ? valuesToRange(data, xAxisKey, sync.range) : undefined
+    }, [shareRange, data, xAxisKey, sync?.range])
+
+    const handleRangeChange = useCallback((next: ChartRange | null) => {
+        if (shareRange) sync.setRange(rangeToValues(data, xAxisKey, next))
+        onRangeChange?.(next)
+    }, [shareRange, sync, data, xAxisKey, onRangeChange])
+
+    const handleHiddenSeriesChange = useCallback((next: string[]) => {
+        if (shareVisibility) sync.setHiddenSeries(next)
+        onHiddenSeriesChange?.(next)
+    }, [shareVisibility, sync, onHiddenSeriesChange])
+
+    return {
+        // Passed to the Recharts chart together with syncMethod="value"
+        syncId: syncId ?? sync?.syncId,
+        range: shareRange ? sharedRange : range,
+        onRangeChange: handleRangeChange,
+        hiddenSeries: shareVisibility ? sync.hiddenSeries : hiddenSeries,
+        onHiddenSeriesChange: handleHiddenSeriesChange,
+    }
+}
@@ -0,0 +1,24 @@
+"use client"
+
+import { useMemo } from "react"
+import type { ChartConfig } from "../components/ui/chart"
+import { normalizeDateValues, type ChartDataRow } from "../lib/date"
+import { applyChartTransform, type ChartTransform } from "../lib/transform"
+
+export interface UseChartTransformOptions {
+    data: ChartDataRow[]
+    chartConfig: ChartConfig
+    // Compared by reference like data: keep it at module level or in useMemo
+    transform?: ChartTransform
+}
+
+// Rows and config the chart plots: Date values as ISO strings, long-format rows reshaped by `transform`,
+// generated series take chartConfig entries as overrides; without a transform the config is passed through
+export const useChartTransform = ({ data, chartConfig, transform }: UseChartTransformOptions) => {
+    return useMemo(() => {
+        const rows = normalizeDateValues(data)
+        return transform
+            ? applyChartTransform(rows, transform, chartConfig)
+            : { data: rows, chartConfig }
+    }, [data, chartConfig, transform])
+}
@@ -0,0 +1,265 @@
+"use client"
+
+import { useCallback, useMemo, useState } from "react"
+import type { CategoricalChartState } from "recharts/types/chart/types"
+import {
+    applyDownsampleBuckets,
+    getDownsampleBuckets,
+    type DownsampleBucket,
+    type DownsampleMethod,
+} from "../lib/downsample"
+
+export interface ChartRange {
+    startIndex: number
+    endIndex: number
+}
+
+export interface ChartZoomConfig {
+    showBrush?: boolean     // Render the Recharts Brush under the plot (default true)
+    dragToZoom?: boolean    // Drag across the plot to select a window (default true)
+    brushHeight?: number
+}
+
+export interface UseChartZoomOptions {
+    data: Array<Record<string, string | number | null>>
+    xAxisKey: string
+    zoom?: boolean | ChartZoomConfig
+    range?: ChartRange | null
+    onRangeChange?: (range: ChartRange | null) => void
+    // Plotted rows are downsampled to this budget (see useDownsample), peaks of `sampleKeys` are kept
+    downsample?: { method: DownsampleMethod; maxPoints: number } | null
+    sampleKeys?: string[]
+}
+
+type Row = Record<string, string | number | null>
+
+//todo: ==== Keep a range inside the data bounds, null means "full range" ====
+export const clampChartRange = (range: ChartRange | null | undefined, length: number): ChartRange | null => {
+    if (!range || length === 0) return null
+
+    const startIndex = Math.max(0, Math.min(range.startIndex, range.endIndex, length - 1))
+    const endIndex = Math.min(length - 1, Math.max(range.startIndex, range.endIndex, 0))
+
+    if (startIndex === 0 && endIndex === length - 1) return null
+
+    return { startIndex, endIndex }
+}
+
+export const useChartZoom = ({
+    data,
+    xAxisKey,
+    zoom,
+    range,
+    onRangeChange,
+    downsample,
+    sampleKeys = [],
+}: UseChartZoomOptions) => {
+    const enabled = !!zoom
+    const config: ChartZoomConfig = typeof zoom === 'object' ? zoom : {}
+    const showBrush = enabled && (config.showBrush ?? true)
+    const dragToZoom = enabled && (config.dragToZoom ?? true)
+    const brushHeight = config.brushHeight ?? 30
+
+    // Controlled when `range` is passed (null included), uncontrolled otherwise
+    const isControlled = range !== undefined
+    const [internalRange, setInternalRange] = useState<ChartRange | null>(null)
+    const [dragStart, setDragStart] = useState<string | null>(null)
+    const [dragEnd, setDragEnd] = useState<string | null>(null)
+
+    const currentRange = useMemo(() => {
+        if (!enabled) return null
+        return clampChartRange(isControlled ? range : internalRange, data.length)
+    }, [enabled, isControlled, range, internalRange, data.length])
+
+    const setRange = useCallback((next: ChartRange | null) => {
+        const clamped = clampChartRange(next, data.length)
+        if (!isControlled) setInternalRange(clamped)
+        onRangeChange?.(clamped)
+    }, [data.length, isControlled, onRangeChange])
+
+    const reset = useCallback(() => setRange(null), [setRange])
+
+    // Data inside the current window, used for domain fitting and per-point rendering
+    const visibleData = useMemo(() => {
+        if (!currentRange) return data
+        return data.slice(currentRange.startIndex, currentRange.endIndex + 1)
+    }, [data, currentRange])
+
+    // Downsampling buckets: with the Brush Recharts plots the whole data and slices it itself, so
+    // it is sampled evenly at the density the window needs; otherwise only the window is sampled
+    const buckets = useMemo<DownsampleBucket[] | null>(() => {
+        if (!downsample) return null
+
+        const maxPoints = showBrush
+            ? Math.ceil(downsample.maxPoints * data.length / Math.max(visibleData.length, 1))
+            : downsample.maxPoints
+
+        return getDownsampleBuckets(showBrush ? data : visibleData, {
+            method: downsample.method,
+            maxPoints,
+            xAxisKey,
+            dataKeys: sampleKeys,
+        })
+    }, [downsample, showBrush, data, visibleData, xAxisKey, sampleKeys])
+
+    // Rows handed to Recharts, built from `rows` aligned with `data` (e.g. normalized copies of it)
+    const toChartData = useCallback(<T extends Row>(rows: T[]): T[] => {
+        const source = showBrush || !currentRange
+            ? rows
+            : rows.slice(currentRange.startIndex, currentRange.endIndex + 1)
+
+        return buckets && downsample
+            ? applyDownsampleBuckets(source, buckets, downsample.method, sampleKeys)
+            : source
+    }, [showBrush, currentRange, buckets, downsample, sampleKeys])
+
+    const chartData = useMemo(() => toChartData(data), [toChartData, data])
+
+    // Brush indices point into the plotted rows, ranges into `data`
+    const brushRange = useMemo(() => {
+        const startIndex = currentRange?.startIndex ?? 0
+        const endIndex = currentRange?.endIndex ?? Math.max(data.length - 1, 0)
+        if (!buckets || !showBrush) return { startIndex, endIndex }
+
+        const first = buckets.findIndex(bucket => bucket.end >= startIndex)
+        const last = buckets.reduce((found, bucket, index) => bucket.start <= endIndex ? index : found, 0)
+
+        return { startIndex: Math.max(first, 0), endIndex: Math.max(last, first, 0) }
+    }, [currentRange, data.length, buckets, showBrush])
+
+    // Points actually drawn inside the window, what the keyboard cursor steps through
+    const plottedData = useMemo(() => {
+        if (!buckets) return visibleData
+        return showBrush ? chartData.slice(brushRange.startIndex, brushRange.endIndex + 1) : chartData
+    }, [buckets, visibleData, showBrush, chartData, brushRange])
+
+    // Index into `data` of each plotted point, so per-row styling stays put while zooming or resampling
+    const plottedIndices = useMemo(() => {
+        const offset = currentRange?.startIndex ?? 0
+        if (!buckets) return visibleData.map((_, index) => index + offset)
+
+        // Buckets index the sampled rows: the whole data with the Brush, the window otherwise
+        return showBrush
+            ? buckets.slice(brushRange.startIndex, brushRange.endIndex + 1).map(bucket => bucket.index)
+            : buckets.map(bucket => bucket.index + offset)
+    }, [buckets, visibleData, currentRange, showBrush, brushRange])
+
+    const findIndexByLabel = useCallback((label: string) => {
+        return data.findIndex(item => String(item[xAxisKey]) === String(label))
+    }, [data, xAxisKey])
+
+    const handleMouseDown = useCallback((state: CategoricalChartState | null) => {
+        if (!dragToZoom || state?.activeLabel === undefined) return
+        setDragStart(String(state.activeLabel))
+        setDragEnd(null)
+    }, [dragToZoom])
+
+    const handleMouseMove = useCallback((state: CategoricalChartState | null) => {
+        if (!dragToZoom || dragStart === null || state?.activeLabel === undefined) return
+        setDragEnd(String(state.activeLabel))
+    }, [dragToZoom, dragStart])
+
+    const handleMouseUp = useCallback(() => {
+        if (dragStart !== null && dragEnd !== null && dragStart !== dragEnd) {
+            const startIndex = findIndexByLabel(dragStart)
+            const endIndex = findIndexByLabel(dragEnd)
+
+            if (startIndex >= 0 && endIndex >= 0) {
+                setRange({
+                    startIndex: Math.min(startIndex, endIndex),
+                    endIndex: Math.max(startIndex, endIndex),
+                })
+            }
+        }
+
+        setDragStart(null)
+        setDragEnd(null)
+    }, [dragStart, dragEnd, findIndexByLabel, setRange])
+
+    const handleBrushChange = useCallback((next: { startIndex?: number; endIndex?: number }) => {
+        if (next.startIndex === undefined || next.endIndex === undefined) return
+        if (next.startIndex === brushRange.startIndex && next.endIndex === brushRange.endIndex) return
+
+        setRange(buckets
+            ? { startIndex: buckets[next.startIndex].start, endIndex: buckets[next.endIndex].end }
+            : { startIndex: next.startIndex, endIndex: next.endIndex })
+    }, [brushRange, buckets, setRange])
+
+    return {
+        enabled,
+        showBrush,
+        brushHeight,
+        range: currentRange,
+        isZoomed: currentRange !== null,
+        visibleData,
+        plottedData,
+        plottedIndices,
+        // With the Brush rendered Recharts slices the data itself, otherwise we pass the slice in
+        chartData,
+        toChartData,
+        selection: dragStart !== null && dragEnd !== null
+            ? { x1: dragStart, x2: dragEnd }
+            : null,
+        setRange,
+        reset,
+        chartHandlers: dragToZoom
+            ? {
+                onMouseDown: handleMouseDown,
+                onMouseMove: handleMouseMove,
+                onMouseUp: handleMouseUp,
+                onMouseLeave: handleMouseUp,
+            }
+            : {},
+        brushProps: {
+            dataKey: xAxisKey,
+            height: brushHeight,
+            startIndex: brushRange.startIndex,
+            endIndex: brushRange.endIndex,
+            onChange: handleBrushChange,
+        },
+    }
+}
+
+// A range as x values, so charts with different data can share it
+export interface ChartValueRange {
+    start: string | number
+    end: string | number
+}
+
+//todo: ==== Index range -> x values at its edges ====
+export const rangeToValues = (
+    data: Array<Record<string, string | number | null>>,
+    xAxisKey: string,
+    range: ChartRange | null,
+): ChartValueRange | null => {
+    const start = range ? data[range.startIndex]?.[xAxisKey] : undefined
+    const end = range ? data[range.endIndex]?.[xAxisKey] : undefined
+    if (start === undefined || start === null || end === undefined || end === null) return null
+
+    return { start, end }
+}
+
+//todo: ==== x values -> index range, numbers (time axis) snap to the points inside the window ====
+export const valuesToRange = (
+    data: Array<Record<string, string | number | null>>,
+    xAxisKey: string,
+    values: ChartValueRange | null,
+): ChartRange | null => {
+    if (!values) return null
+
+    let startIndex: number
+    let endIndex: number
+
+    if (typeof values.start === 'number' && typeof values.end === 'number') {
+        const { start, end } = values
+        startIndex = data.findIndex(item => Number(item[xAxisKey]) >= start)
+        endIndex = data.reduce((last, item, index) => Number(item[xAxisKey]) <= end ? index : last, -1)
+    } else {
+        startIndex = data.findIndex(item => String(item[xAxisKey]) === String(values.start))
+        endIndex = data.findIndex(item => String(item[xAxisKey]) === String(values.end))
+    }
+
+    if (startIndex < 0 || endIndex < 0 || startIndex > endIndex) return null
+
+    return clampChartRange({ startIndex, endIndex }, data.length)
+}
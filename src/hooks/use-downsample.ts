@@ -0,0 +1,42 @@
+"use client"
+
+import { useLayoutEffect, useMemo, useState } from "react"
+import type { DownsampleConfig, DownsampleMethod } from "../lib/downsample"
+
+// Budget used until the chart has been measured
+const DEFAULT_MAX_POINTS = 1000
+
+export interface UseDownsampleOptions {
+    downsample?: DownsampleMethod | DownsampleConfig
+    // Element the chart fills, its width is the default point budget
+    containerRef: React.RefObject<HTMLElement | null>
+}
+
+// Resolves method and point budget, re-measuring the width on resize
+export const useDownsample = ({ downsample, containerRef }: UseDownsampleOptions) => {
+    const config: DownsampleConfig | null = !downsample
+        ? null
+        : typeof downsample === 'string' ? { method: downsample } : downsample
+    const measure = config !== null && config.maxPoints === undefined
+    const [width, setWidth] = useState<number | null>(null)
+
+    useLayoutEffect(() => {
+        const element = containerRef.current
+        if (!measure || !element) return
+
+        setWidth(Math.round(element.clientWidth))
+        if (typeof ResizeObserver === 'undefined') return
+
+        const observer = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)))
+        observer.observe(element)
+        return () => observer.disconnect()
+    }, [measure, containerRef])
+
+    const enabled = config !== null
+    const method = config?.method ?? 'lttb'
+    const maxPoints = config?.maxPoints ?? (width || DEFAULT_MAX_POINTS)
+
+    return useMemo(() => {
+        return enabled ? { method, maxPoints } : null
+    }, [enabled, method, maxPoints])
+}
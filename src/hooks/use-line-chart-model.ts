@@ -0,0 +1,221 @@
+"use client"
+
+import { useEffect, useMemo, useRef } from "react"
+import { resolveChartStatus } from "../components/ui/chart-state"
+import { getAnnotationValues } from "../components/ui/chart-annotations"
+import type { LineChartComponentProps, LineConfig, LineYAxisConfig } from "../components/LineChart/LineChart"
+import { getSeriesAxisMap, hasRightYAxis, type YAxisSide } from "../lib/axis"
+import { toTimeSeries } from "../lib/date"
+import { resolveMissingValues } from "../lib/missing"
+import { formatValue, type ValueFormat } from "../lib/format"
+import { dropNonPositiveValues, getLogScaleKeys, getLogScaleNotice } from "../lib/scale"
+import { getSeriesExtent, resolveAxisDomain } from "../lib/domain"
+import { diagnoseCartesianData } from "../lib/diagnostics"
+import { useChartZoom } from "./use-chart-zoom"
+import { useChartTransform } from "./use-chart-transform"
+import { useChartSync } from "./use-chart-sync"
+import { useSeriesVisibility } from "./use-series-visibility"
+import { useTimeAxis } from "./use-time-axis"
+import { resolveStreamingConfig, useDomainHysteresis, type HeldDomains } from "./use-chart-stream"
+import { useDownsample } from "./use-downsample"
+import { shouldDiagnoseChart, useChartDiagnostics } from "./use-chart-diagnostics"
+
+export type UseLineChartModelOptions = Pick<
+    LineChartComponentProps,
+    | 'data'
+    | 'chartConfig'
+    | 'transform'
+    | 'lines'
+    | 'xAxisKey'
+    | 'xAxisType'
+    | 'xAxisFormatter'
+    | 'locale'
+    | 'yAxisConfig'
+    | 'rightYAxisConfig'
+    | 'missingValues'
+    | 'zoom'
+    | 'range'
+    | 'onRangeChange'
+    | 'showLegend'
+    | 'hiddenSeries'
+    | 'onHiddenSeriesChange'
+    | 'syncId'
+    | 'streaming'
+    | 'downsample'
+    | 'annotations'
+    | 'status'
+    | 'onDiagnostics'
+>
+
+//todo: ==== Map the legacy formatType values onto shared format specs ====
+const FORMAT_TYPE_SPECS: Record<NonNullable<LineYAxisConfig['formatType']>, ValueFormat> = {
+    auto: 'compact',
+    compact: 'compact',
+    full: 'full',
+    currency: { type: 'currency', maximumFractionDigits: 0 },
+    percentage: 'percent',
+}
+
+//todo: ==== Resolve domain, ticks and formatter for one y-axis ====
+const resolveYAxis = (
+    config: LineYAxisConfig | undefined,
+    data: Array<Record<string, string | number | null>>,
+    dataKeys: string[],
+    extraValues: number[] = [],
+    locale?: string,
+    holdDomain?: (domain: [number, number]) => [number, number],
+) => {
+    // Auto domain with padding unless a fixed one is given, held between updates when streaming
+    const extent = getSeriesExtent(data, dataKeys.map(dataKey => ({ dataKey })), extraValues)
+    const axis = resolveAxisDomain(extent, { ...config, padding: config?.padding ?? 0.15 }, holdDomain)
+
+    const tickFormatter = config?.customFormatter
+        || config?.tickFormatter
+        || ((value: number) => formatValue(value, config?.format ?? FORMAT_TYPE_SPECS[config?.formatType ?? 'auto'], { locale }))
+
+    return { ...axis, tickFormatter }
+}
+
+// Everything LineChartComponent computes before drawing: series, rows, zoom, domains, ticks and tick formatters.
+// Attach containerRef to the element the chart fills so downsampling can measure it
+export const useLineChartModel = ({
+    data: sourceData,
+    chartConfig: sourceConfig,
+    transform,
+    lines,
+    xAxisKey = "month",
+    xAxisType = "category",
+    xAxisFormatter,
+    locale,
+    yAxisConfig,
+    rightYAxisConfig,
+    missingValues = 'gap',
+    zoom,
+    range,
+    onRangeChange,
+    showLegend,
+    hiddenSeries,
+    onHiddenSeriesChange,
+    syncId,
+    streaming,
+    downsample,
+    annotations,
+    status,
+    onDiagnostics,
+}: UseLineChartModelOptions) => {
+    // Long-format rows are reshaped first; generated series take chartConfig entries as overrides
+    const { data, chartConfig } = useChartTransform({ data: sourceData, chartConfig: sourceConfig, transform })
+
+    // Auto-generate lines from chartConfig if not provided
+    const chartLines = useMemo<LineConfig[]>(() => lines || Object.keys(chartConfig).map(key => ({
+        dataKey: key,
+        stroke: chartConfig[key].color,
+        strokeWidth: 2,
+        type: "monotone" as const,
+    })), [lines, chartConfig])
+
+    // Time axis: dates become epoch numbers so points are spaced proportionally,
+    // values <= 0 on a log axis become missing, then missing values are resolved
+    // once for rendering, domains and tooltips
+    const { seriesData, droppedValues } = useMemo(() => {
+        const rows = xAxisType === "time" ? toTimeSeries(data, xAxisKey) : data
+        const logKeys = getLogScaleKeys(chartLines, { left: yAxisConfig?.scale, right: rightYAxisConfig?.scale })
+        const { rows: scaledRows, dropped } = dropNonPositiveValues(rows, logKeys)
+        const resolved = resolveMissingValues(scaledRows, chartLines.map(line => line.dataKey), missingValues, xAxisKey)
+        return {
+            // Zero fills can't be drawn on a log axis either, they stay gaps there
+            seriesData: missingValues === 'zero' ? dropNonPositiveValues(resolved, logKeys).rows : resolved,
+            droppedValues: dropped,
+        }
+    }, [data, xAxisType, xAxisKey, chartLines, yAxisConfig?.scale, rightYAxisConfig?.scale, missingValues])
+
+    // Cursor, zoom range and hidden series shared with a ChartSyncProvider
+    const sync = useChartSync({ syncId, data: seriesData, xAxisKey, range, onRangeChange, hiddenSeries, onHiddenSeriesChange })
+
+    // Series visibility toggled from the legend
+    const seriesKeys = useMemo(() => chartLines.map(line => line.dataKey), [chartLines])
+    const visibility = useSeriesVisibility({ seriesKeys, hiddenSeries: sync.hiddenSeries, onHiddenSeriesChange: sync.onHiddenSeriesChange })
+    const shouldShowLegend = showLegend ?? chartLines.length > 1
+
+    // Loading, empty and error states replace the plot, header and footer stay
+    const chartStatus = resolveChartStatus(status, seriesData.length === 0)
+    const scaleNotice = getLogScaleNotice(droppedValues)
+
+    // Raw data checked against the series: console warning and badge in development, onDiagnostics in every build
+    const diagnosticsEnabled = shouldDiagnoseChart(onDiagnostics)
+    const diagnostics = useMemo(() => diagnosticsEnabled
+        ? diagnoseCartesianData(data, { seriesKeys, categoryKey: xAxisKey, checkDuplicates: xAxisType !== 'time', checkDates: xAxisType === 'time' })
+        : [], [diagnosticsEnabled, data, seriesKeys, xAxisKey, xAxisType])
+    const { showBadge: showDiagnostics } = useChartDiagnostics('LineChartComponent', diagnostics, onDiagnostics)
+
+    // Zoom state (range, brush and drag selection) and downsampling of the plotted rows,
+    // the budget follows the width of the element containerRef is attached to
+    const containerRef = useRef<HTMLDivElement>(null)
+    const sampling = useDownsample({ downsample, containerRef })
+    const zoomState = useChartZoom({
+        data: seriesData,
+        xAxisKey,
+        zoom,
+        range: sync.range,
+        onRangeChange: sync.onRangeChange,
+        downsample: sampling,
+        sampleKeys: visibility.visibleKeys,
+    })
+
+    // Ticks and labels adapt to the visible span in time mode
+    const timeAxis = useTimeAxis({ data: zoomState.visibleData, xAxisKey, xAxisType, locale, xAxisFormatter })
+
+    // Dual Y axis when any line is plotted against the right axis
+    const isDualAxis = hasRightYAxis(chartLines)
+    const axisByKey = useMemo(() => getSeriesAxisMap(chartLines), [chartLines])
+
+    // Streaming: auto domains only widen or narrow past the hysteresis threshold
+    const streamingConfig = resolveStreamingConfig(streaming)
+    const hysteresis = useDomainHysteresis(streamingConfig)
+
+    // Domain, ticks and formatter per axis (hidden series don't count, annotations do); the right one only when used
+    const yAxes = useMemo(() => {
+        const held: HeldDomains = {}
+        const resolveSide = (side: YAxisSide, config: LineYAxisConfig | undefined) => {
+            const dataKeys = visibility.visibleKeys.filter(key => (axisByKey[key] ?? 'left') === side)
+            return resolveYAxis(config, zoomState.visibleData, dataKeys, getAnnotationValues(annotations, side), locale, domain => {
+                held[side] = hysteresis.hold(side, domain)
+                return held[side]
+            })
+        }
+
+        return {
+            left: resolveSide('left', yAxisConfig),
+            right: isDualAxis ? resolveSide('right', rightYAxisConfig) : null,
+            held,
+        }
+    }, [isDualAxis, yAxisConfig, rightYAxisConfig, zoomState.visibleData, visibility.visibleKeys, axisByKey, annotations, locale, hysteresis.hold])
+
+    // The held domains are what the next streaming update compares against
+    useEffect(() => hysteresis.commit(yAxes.held), [yAxes.held, hysteresis.commit])
+
+    const { left: leftAxis, right: rightAxis } = yAxes
+
+    return {
+        containerRef,
+        data,
+        chartConfig,
+        chartLines,
+        seriesData,
+        droppedValues,
+        scaleNotice,
+        diagnostics,
+        showDiagnostics,
+        sync,
+        visibility,
+        shouldShowLegend,
+        chartStatus,
+        zoomState,
+        timeAxis,
+        isDualAxis,
+        axisByKey,
+        streamingConfig,
+        leftAxis,
+        rightAxis,
+    }
+}
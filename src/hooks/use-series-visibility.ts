@@ -0,0 +1,66 @@
+"use client"
+
+import { useCallback, useMemo, useState } from "react"
+
+type ModifierEvent = { shiftKey?: boolean; altKey?: boolean }
+
+export interface UseSeriesVisibilityOptions {
+    seriesKeys: string[]
+    hiddenSeries?: string[]
+    onHiddenSeriesChange?: (hiddenSeries: string[]) => void
+}
+
+//todo: ==== Next hidden list for a legend click: toggle, or isolate with shift/alt ====
+export const getNextHiddenSeries = (
+    seriesKeys: string[],
+    hiddenSeries: string[],
+    dataKey: string,
+    event?: ModifierEvent,
+): string[] => {
+    if (event?.shiftKey || event?.altKey) {
+        const others = seriesKeys.filter(key => key !== dataKey)
+        const isIsolated = !hiddenSeries.includes(dataKey) && others.every(key => hiddenSeries.includes(key))
+
+        // Isolating the already isolated series shows everything again
+        return isIsolated ? [] : others
+    }
+
+    return hiddenSeries.includes(dataKey)
+        ? hiddenSeries.filter(key => key !== dataKey)
+        : [...hiddenSeries, dataKey]
+}
+
+export const useSeriesVisibility = ({
+    seriesKeys,
+    hiddenSeries,
+    onHiddenSeriesChange,
+}: UseSeriesVisibilityOptions) => {
+    // Controlled when `hiddenSeries` is passed, uncontrolled otherwise
+    const isControlled = hiddenSeries !== undefined
+    const [internalHidden, setInternalHidden] = useState<string[]>([])
+    const hidden = isControlled ? hiddenSeries : internalHidden
+
+    const setHidden = useCallback((next: string[]) => {
+        if (!isControlled) setInternalHidden(next)
+        onHiddenSeriesChange?.(next)
+    }, [isControlled, onHiddenSeriesChange])
+
+    const toggleSeries = useCallback((dataKey: string, event?: ModifierEvent) => {
+        setHidden(getNextHiddenSeries(seriesKeys, hidden, dataKey, event))
+    }, [seriesKeys, hidden, setHidden])
+
+    const isHidden = useCallback((dataKey: string) => hidden.includes(dataKey), [hidden])
+
+    const visibleKeys = useMemo(
+        () => seriesKeys.filter(key => !hidden.includes(key)),
+        [seriesKeys, hidden]
+    )
+
+    return {
+        hiddenSeries: hidden,
+        visibleKeys,
+        isHidden,
+        toggleSeries,
+        setHiddenSeries: setHidden,
+    }
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import {
+    formatTimeLabel,
+    formatTimeTick,
+    getTimeTicks,
+    type TimeGranularity,
+} from "../lib/date"
+
+export type XAxisType = 'category' | 'time'
+
+export interface UseTimeAxisOptions {
+    // Rows already converted with `toTimeSeries`, limited to what is visible
+    data: Array<Record<string, string | number | null>>
+    xAxisKey: string
+    xAxisType?: XAxisType
+    locale?: string
+    // Receives the ISO string of each tick in time mode
+    xAxisFormatter?: (value: string) => string
+    tickCount?: number
+}
+
+export const useTimeAxis = ({
+    data,
+    xAxisKey,
+    xAxisType = 'category',
+    locale,
+    xAxisFormatter,
+    tickCount = 6,
+}: UseTimeAxisOptions) => {
+    const isTime = xAxisType === 'time'
+
+    // Granularity and calendar-aligned ticks for the visible span
+    const { granularity, ticks } = useMemo<{ granularity: TimeGranularity; ticks?: number[] }>(() => {
+        const times = isTime
+            ? data.map(item => item[xAxisKey]).filter((value): value is number => typeof value === 'number')
+            : []
+
+        if (!times.length) return { granularity: 'day' }
+
+        const min = times.reduce((acc, time) => Math.min(acc, time))
+        const max = times.reduce((acc, time) => Math.max(acc, time))
+
+        return getTimeTicks(min, max, tickCount)
+    }, [isTime, data, xAxisKey, tickCount])
+
+    const tickFormatter = useCallback((value: number) => {
+        if (xAxisFormatter) return xAxisFormatter(new Date(value).toISOString())
+        return formatTimeTick(value, granularity, locale)
+    }, [xAxisFormatter, granularity, locale])
+
+    // Tooltip labels read the timestamp from the hovered row
+    const tooltipLabelFormatter = useCallback((_: unknown, payload: Array<{ payload?: Record<string, unknown> }>) => {
+        const value = payload?.[0]?.payload?.[xAxisKey]
+        return typeof value === 'number' ? formatTimeLabel(value, granularity, locale) : String(value ?? '')
+    }, [xAxisKey, granularity, locale])
+
+    // Full label for a raw x value, e.g. for summaries and data tables
+    const formatLabel = useCallback((value: unknown) => {
+        return isTime && typeof value === 'number'
+            ? formatTimeLabel(value, granularity, locale)
+            : String(value ?? '')
+    }, [isTime, granularity, locale])
+
+    return {
+        isTime,
+        granularity,
+        tickFormatter,
+        tooltipLabelFormatter: isTime ? tooltipLabelFormatter : undefined,
+        formatLabel,
+        axisProps: isTime
+            ? {
+                type: 'number' as const,
+                scale: 'time' as const,
+                domain: ['dataMin', 'dataMax'],
+                ticks,
+                tickFormatter,
+            }
+            : {},
+    }
+}
@@ -1,6 +1,9 @@
 // Export all chart components
 export * from "./components/AreaChart/AreaChart";
 export * from "./components/BarChart/BarChart";
+export * from "./components/CartesianChart/CartesianChart";
+export * from "./components/ChartFromSpec/ChartFromSpec";
+export * from "./components/ComposedChart/ComposedChart";
 export * from "./components/LineChart/LineChart";
 export * from "./components/PieChart/PieChart";
 export * from "./components/RadialShapeChart/RadialShapeChart";
@@ -8,6 +11,42 @@ export * from "./components/RadialShapeChart/RadialShapeChart";
 // Export base components
 export * from "./components/ui/card";
 export * from "./components/ui/chart";
+export * from "./components/ui/chart-header";
+export * from "./components/ui/chart-annotations";
+export * from "./components/ui/chart-state";
+export * from "./components/ui/chart-export";
+export * from "./components/ui/chart-data-table";
+export * from "./components/ui/chart-sync";
+export * from "./components/ui/chart-card";
+export * from "./components/ui/chart-diagnostics";
+
+// Export hooks
+export * from "./hooks/use-chart-zoom";
+export * from "./hooks/use-series-visibility";
+export * from "./hooks/use-time-axis";
+export * from "./hooks/use-chart-export";
+export * from "./hooks/use-chart-keyboard";
+export * from "./hooks/use-chart-sync";
+export * from "./hooks/use-chart-stream";
+export * from "./hooks/use-downsample";
+export * from "./hooks/use-area-chart-model";
+export * from "./hooks/use-bar-chart-model";
+export * from "./hooks/use-line-chart-model";
+export * from "./hooks/use-chart-diagnostics";
+export * from "./hooks/use-chart-transform";
 
 // Export utilities
 export * from "./lib/utils";
+export * from "./lib/date";
+export * from "./lib/axis";
+export * from "./lib/format";
+export * from "./lib/export";
+export * from "./lib/summary";
+export * from "./lib/downsample";
+export * from "./lib/missing";
+export * from "./lib/scale";
+export * from "./lib/domain";
+export * from "./lib/spec";
+export * from "./lib/diagnostics";
+export * from "./lib/transform";
+export * from "./lib/trend";
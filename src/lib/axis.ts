@@ -0,0 +1,13 @@
+export type YAxisSide = 'left' | 'right'
+
+//todo: ==== Map each series to the Y axis it is plotted against ====
+export const getSeriesAxisMap = (series: Array<{ dataKey: string; yAxisId?: YAxisSide }>) => {
+    return Object.fromEntries(
+        series.map(item => [item.dataKey, item.yAxisId ?? 'left'])
+    ) as Record<string, YAxisSide>
+}
+
+//todo: ==== A second axis is only rendered when some series asks for it ====
+export const hasRightYAxis = (series: Array<{ yAxisId?: YAxisSide }>) => {
+    return series.some(item => item.yAxisId === 'right')
+}
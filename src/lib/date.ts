@@ -0,0 +1,213 @@
+export type DateLike = string | number | Date
+
+// A row of chart data; Date values are read as their ISO string, null is a missing value
+export type ChartDataRow = Record<string, string | number | Date | null>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TimeRangePreset {
+    value: string
+    label: string
+    days?: number   // Window length counted back from the latest date, omit for "all"
+}
+
+export const DEFAULT_TIME_RANGE_PRESETS: TimeRangePreset[] = [
+    { value: "90d", label: "Last 3 months", days: 90 },
+    { value: "30d", label: "Last 30 days", days: 30 },
+    { value: "7d", label: "Last 7 days", days: 7 },
+]
+
+// ISO 8601 dates and date-times: "2024-04", "2024-04-01", "2024-04-01T10:30:00Z", "2024-04-01 10:30+02:00"
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}(-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?$/
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/
+
+//todo: ==== "2024-04" or "2024-04-01" at local midnight, like the time axis ticks; `new Date` reads them as UTC ====
+const parseLocalDate = ([, year, month, day = '01']: RegExpExecArray) => {
+    const date = new Date(Number(year), Number(month) - 1, Number(day))
+    // Out-of-range parts ("2024-13-01") would roll over into the next month or year
+    return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) ? date : null
+}
+
+//todo: ==== Parse ISO strings, Date objects and epoch numbers, null when not a date ====
+// Other strings ("1", "12", "Week 3") are categories, even where `new Date` would read them as dates
+export const toDate = (value: unknown): Date | null => {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : value
+    }
+
+    if (typeof value === "number") {
+        return isFinite(value) ? new Date(value) : null
+    }
+
+    if (typeof value === "string" && ISO_DATE_PATTERN.test(value.trim())) {
+        const dateOnly = DATE_ONLY_PATTERN.exec(value.trim())
+        if (dateOnly) return parseLocalDate(dateOnly)
+
+        // A space between date and time isn't parsed everywhere
+        const date = new Date(value.trim().replace(' ', 'T'))
+        return isNaN(date.getTime()) ? null : date
+    }
+
+    return null
+}
+
+//todo: ==== Keep the rows that fall in the last `days` days of the data ====
+export const filterByTimeRange = <T extends Record<string, unknown>>(
+    data: T[],
+    dateKey: string,
+    preset?: TimeRangePreset,
+): T[] => {
+    if (!preset?.days) return data
+
+    const timestamps = data.map(item => toDate(item[dateKey])?.getTime() ?? NaN)
+    const validTimestamps = timestamps.filter(time => !isNaN(time))
+
+    // Not a date axis, nothing to filter on
+    if (!validTimestamps.length) return data
+
+    const referenceTime = validTimestamps.reduce((latest, time) => Math.max(latest, time))
+    const startTime = referenceTime - preset.days * DAY_MS
+
+    return data.filter((_, index) => timestamps[index] >= startTime)
+}
+
+export type TimeGranularity = "hour" | "day" | "week" | "month" | "year"
+
+const GRANULARITY_MS: Record<TimeGranularity, number> = {
+    hour: 60 * 60 * 1000,
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 30.44 * DAY_MS,
+    year: 365.25 * DAY_MS,
+}
+
+const TICK_FORMATS: Record<TimeGranularity, Intl.DateTimeFormatOptions> = {
+    hour: { hour: "numeric", minute: "2-digit" },
+    day: { month: "short", day: "numeric" },
+    week: { month: "short", day: "numeric" },
+    month: { month: "short", year: "2-digit" },
+    year: { year: "numeric" },
+}
+
+const LABEL_FORMATS: Record<TimeGranularity, Intl.DateTimeFormatOptions> = {
+    hour: { dateStyle: "medium", timeStyle: "short" },
+    day: { dateStyle: "medium" },
+    week: { dateStyle: "medium" },
+    month: { month: "long", year: "numeric" },
+    year: { year: "numeric" },
+}
+
+//todo: ==== Replace the date column with epoch numbers so Recharts can space points by time ====
+// Rows are sorted by time, so unsorted input doesn't draw lines that jump back and forth.
+// Rows without a parseable date are left out, the diagnostics report them
+export const toTimeSeries = <T extends Record<string, unknown>>(data: T[], dateKey: string): T[] => {
+    return data
+        .flatMap(item => {
+            const date = toDate(item[dateKey])
+            return date ? [{ ...item, [dateKey]: date.getTime() }] : []
+        })
+        .sort((a, b) => (a[dateKey] as number) - (b[dateKey] as number))
+}
+
+const hasNoDates = (item: ChartDataRow): item is Record<string, string | number | null> => {
+    return !Object.values(item).some(value => value instanceof Date)
+}
+
+//todo: ==== Date values to ISO strings, which category and time axes read like any other date string ====
+export const normalizeDateValues = (data: ChartDataRow[]): Array<Record<string, string | number | null>> => {
+    if (data.every(hasNoDates)) return data
+
+    return data.map(item => hasNoDates(item) ? item : Object.fromEntries(
+        Object.entries(item).map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value]),
+    ))
+}
+
+//todo: ==== Pick the tick granularity from the visible span ====
+export const getTimeGranularity = (spanMs: number): TimeGranularity => {
+    if (spanMs <= 2 * DAY_MS) return "hour"
+    if (spanMs <= 62 * DAY_MS) return "day"
+    if (spanMs <= 183 * DAY_MS) return "week"
+    if (spanMs <= 3 * 365 * DAY_MS) return "month"
+    return "year"
+}
+
+const floorToGranularity = (time: number, granularity: TimeGranularity) => {
+    const date = new Date(time)
+
+    switch (granularity) {
+        case "year":
+            date.setMonth(0, 1)
+            date.setHours(0, 0, 0, 0)
+            break
+        case "month":
+            date.setDate(1)
+            date.setHours(0, 0, 0, 0)
+            break
+        case "week":
+            date.setDate(date.getDate() - date.getDay())
+            date.setHours(0, 0, 0, 0)
+            break
+        case "day":
+            date.setHours(0, 0, 0, 0)
+            break
+        case "hour":
+            date.setMinutes(0, 0, 0)
+            break
+    }
+
+    return date.getTime()
+}
+
+const addGranularity = (time: number, granularity: TimeGranularity, count: number) => {
+    const date = new Date(time)
+
+    switch (granularity) {
+        case "year":
+            date.setFullYear(date.getFullYear() + count)
+            break
+        case "month":
+            date.setMonth(date.getMonth() + count)
+            break
+        case "week":
+            date.setDate(date.getDate() + count * 7)
+            break
+        case "day":
+            date.setDate(date.getDate() + count)
+            break
+        case "hour":
+            date.setHours(date.getHours() + count)
+            break
+    }
+
+    return date.getTime()
+}
+
+//todo: ==== Calendar-aligned ticks between min and max ====
+export const getTimeTicks = (min: number, max: number, targetCount = 6) => {
+    const granularity = getTimeGranularity(max - min)
+
+    if (max <= min) return { granularity, ticks: [min] }
+
+    const units = (max - min) / GRANULARITY_MS[granularity]
+    const step = Math.max(1, Math.ceil(units / targetCount))
+
+    const ticks: number[] = []
+    let current = floorToGranularity(min, granularity)
+
+    while (current <= max && ticks.length < targetCount * 3) {
+        if (current >= min) ticks.push(current)
+        current = addGranularity(current, granularity, step)
+    }
+
+    return { granularity, ticks }
+}
+
+export const formatTimeTick = (value: DateLike, granularity: TimeGranularity, locale?: string) => {
+    const date = toDate(value)
+    return date ? new Intl.DateTimeFormat(locale, TICK_FORMATS[granularity]).format(date) : String(value)
+}
+
+export const formatTimeLabel = (value: DateLike, granularity: TimeGranularity, locale?: string) => {
+    const date = toDate(value)
+    return date ? new Intl.DateTimeFormat(locale, LABEL_FORMATS[granularity]).format(date) : String(value)
+}
@@ -0,0 +1,214 @@
+import { toDate } from "./date"
+
+export type ChartDiagnosticCode =
+    | 'missing-series-key'      // A configured series never appears in the data
+    | 'missing-category-key'    // xAxisKey (or the pie nameKey) isn't a key of the rows
+    | 'non-numeric-value'       // Strings, booleans or NaN where a number is plotted
+    | 'duplicate-category'      // The same category twice, tooltips and bars overlap
+    | 'percentage-mismatch'     // PieChartData.percentage doesn't match value / total
+    | 'invalid-date'            // A time axis category that can't be parsed, the row isn't plotted
+
+export interface ChartDiagnostic {
+    code: ChartDiagnosticCode
+    message: string
+    key?: string        // Data key the problem is about
+    rows?: number[]     // Indexes of the first offending rows
+}
+
+type Row = Record<string, unknown>
+
+// Rows listed per diagnostic, the message gives the total
+const MAX_ROWS = 5
+
+// Percentage points a pie slice may be off, leaves room for rounding to whole percents
+const PERCENTAGE_TOLERANCE = 1
+
+//todo: ==== Diagnostics run in development builds, or whenever someone listens for them ====
+export const isChartDevMode = () => {
+    try {
+        return process.env.NODE_ENV !== 'production'
+    } catch {
+        // No bundler replaced process.env in the browser
+        return false
+    }
+}
+
+const describeValue = (value: unknown) => typeof value === 'string' ? `"${value}"` : String(value)
+
+const listKeys = (keys: Set<string>) => keys.size ? [...keys].map(key => `"${key}"`).join(', ') : 'none'
+
+//todo: ==== Every key used by at least one row ====
+const getDataKeys = (data: Row[]) => {
+    const keys = new Set<string>()
+    data.forEach(item => Object.keys(item ?? {}).forEach(key => keys.add(key)))
+    return keys
+}
+
+//todo: ==== Values that are present but aren't finite numbers; null and undefined are plain missing values ====
+const findNonNumeric = (data: Row[], key: string): ChartDiagnostic | null => {
+    const rows = data.flatMap((item, index) => {
+        const value = item?.[key]
+        return value !== null && value !== undefined && !(typeof value === 'number' && isFinite(value)) ? [index] : []
+    })
+    if (!rows.length) return null
+
+    const first = rows[0]
+    return {
+        code: 'non-numeric-value',
+        key,
+        rows: rows.slice(0, MAX_ROWS),
+        message: `"${key}" has ${rows.length} non-numeric value${rows.length > 1 ? 's' : ''} (row ${first}: ${describeValue(data[first][key])}); numbers sent as strings aren't plotted`,
+    }
+}
+
+//todo: ==== Time axis categories that don't parse as dates ====
+const findInvalidDates = (data: Row[], key: string): ChartDiagnostic | null => {
+    const rows = data.flatMap((item, index) => toDate(item?.[key]) ? [] : [index])
+    if (!rows.length) return null
+
+    const first = rows[0]
+    return {
+        code: 'invalid-date',
+        key,
+        rows: rows.slice(0, MAX_ROWS),
+        message: `"${key}" has ${rows.length} value${rows.length > 1 ? 's' : ''} that aren't dates (row ${first}: ${describeValue(data[first][key])}); those rows are left out of the time axis`,
+    }
+}
+
+//todo: ==== Categories that appear more than once ====
+const findDuplicates = (data: Row[], key: string): ChartDiagnostic | null => {
+    const seen = new Map<string, number>()
+    const rows: number[] = []
+    const duplicates = new Set<string>()
+
+    data.forEach((item, index) => {
+        const value = item?.[key]
+        if (value === null || value === undefined) return
+
+        const category = String(value)
+        if (seen.has(category)) {
+            rows.push(index)
+            duplicates.add(category)
+        } else {
+            seen.set(category, index)
+        }
+    })
+    if (!duplicates.size) return null
+
+    return {
+        code: 'duplicate-category',
+        key,
+        rows: rows.slice(0, MAX_ROWS),
+        message: `"${key}" repeats ${listKeys(new Set([...duplicates].slice(0, MAX_ROWS)))}${duplicates.size > MAX_ROWS ? '…' : ''}; each category should be one row`,
+    }
+}
+
+//todo: ==== Area, bar, line and composed data: category key, series keys, numeric values, duplicates ====
+export const diagnoseCartesianData = (
+    data: Row[],
+    {
+        seriesKeys,
+        categoryKey,
+        checkDuplicates = true,   // Off for time axes, where repeated timestamps are legitimate
+        checkDates = false,       // On for time axes, where rows without a date are dropped
+    }: { seriesKeys: string[]; categoryKey: string; checkDuplicates?: boolean; checkDates?: boolean },
+): ChartDiagnostic[] => {
+    if (!data.length) return []
+
+    const dataKeys = getDataKeys(data)
+    const diagnostics: ChartDiagnostic[] = []
+
+    if (!dataKeys.has(categoryKey)) {
+        diagnostics.push({
+            code: 'missing-category-key',
+            key: categoryKey,
+            message: `xAxisKey "${categoryKey}" isn't a key in data (it defaults to "month"); data keys: ${listKeys(dataKeys)}`,
+        })
+    } else {
+        const duplicates = checkDuplicates ? findDuplicates(data, categoryKey) : null
+        if (duplicates) diagnostics.push(duplicates)
+
+        const invalidDates = checkDates ? findInvalidDates(data, categoryKey) : null
+        if (invalidDates) diagnostics.push(invalidDates)
+    }
+
+    seriesKeys.forEach(key => {
+        if (!dataKeys.has(key)) {
+            diagnostics.push({
+                code: 'missing-series-key',
+                key,
+                message: `Series "${key}" isn't a key in data, so nothing is drawn for it; data keys: ${listKeys(dataKeys)}`,
+            })
+            return
+        }
+
+        const nonNumeric = findNonNumeric(data, key)
+        if (nonNumeric) diagnostics.push(nonNumeric)
+    })
+
+    return diagnostics
+}
+
+//todo: ==== Pie data: name and value keys, duplicates, and percentages that disagree with value / total ====
+export const diagnosePieData = (
+    data: Row[],
+    { dataKey, nameKey }: { dataKey: string; nameKey: string },
+): ChartDiagnostic[] => {
+    if (!data.length) return []
+
+    const dataKeys = getDataKeys(data)
+    const diagnostics: ChartDiagnostic[] = []
+
+    if (!dataKeys.has(nameKey)) {
+        diagnostics.push({
+            code: 'missing-category-key',
+            key: nameKey,
+            message: `nameKey "${nameKey}" isn't a key in data; data keys: ${listKeys(dataKeys)}`,
+        })
+    } else {
+        const duplicates = findDuplicates(data, nameKey)
+        if (duplicates) diagnostics.push(duplicates)
+    }
+
+    if (!dataKeys.has(dataKey)) {
+        diagnostics.push({
+            code: 'missing-series-key',
+            key: dataKey,
+            message: `dataKey "${dataKey}" isn't a key in data, so no slice is drawn; data keys: ${listKeys(dataKeys)}`,
+        })
+        return diagnostics
+    }
+
+    const nonNumeric = findNonNumeric(data, dataKey)
+    if (nonNumeric) return [...diagnostics, nonNumeric]
+
+    const total = data.reduce((sum, item) => sum + ((item[dataKey] as number) ?? 0), 0)
+    if (!(total > 0)) return diagnostics
+
+    const rows = data.flatMap((item, index) => {
+        const percentage = item.percentage
+        if (typeof percentage !== 'number' || typeof item[dataKey] !== 'number') return []
+        return Math.abs(percentage - (item[dataKey] as number) / total * 100) > PERCENTAGE_TOLERANCE ? [index] : []
+    })
+
+    if (rows.length) {
+        const first = data[rows[0]]
+        diagnostics.push({
+            code: 'percentage-mismatch',
+            key: 'percentage',
+            rows: rows.slice(0, MAX_ROWS),
+            message: `${rows.length} percentage${rows.length > 1 ? 's don\'t' : ' doesn\'t'} match ${dataKey} / total (row ${rows[0]}: ${first.percentage}% given, ${((first[dataKey] as number) / total * 100).toFixed(1)}% from the values)`,
+        })
+    }
+
+    return diagnostics
+}
+
+//todo: ==== Radial data: a single row with numeric value and percentage ====
+export const diagnoseRadialData = (data: { value?: unknown; percentage?: unknown } | null | undefined): ChartDiagnostic[] => {
+    if (!data) return []
+
+    return ['value', 'percentage']
+        .map(key => findNonNumeric([data as Row], key))
+        .filter((diagnostic): diagnostic is ChartDiagnostic => diagnostic !== null)
+}
@@ -0,0 +1,169 @@
+import { isMissingValue } from "./missing"
+import {
+    getLogDomain,
+    getLogTicks,
+    getSymlogTicks,
+    toRechartsScale,
+    type AxisScale,
+} from "./scale"
+
+export type AxisDomain = [number, number] | 'auto' | ((extent: [number, number]) => [number, number])
+
+export interface AxisDomainOptions {
+    domain?: AxisDomain     // Fixed [min, max], 'auto' (default), or built from the data extent
+    padding?: number        // Share of the data span added beyond the data on both ends
+    tickCount?: number      // Target number of ticks (default 6)
+    includeZero?: boolean   // Stretch the domain to 0 when the data doesn't cross it
+    nice?: boolean          // Round the domain ends out to a tick (default true)
+    scale?: AxisScale       // Default 'linear'; values <= 0 are left out on 'log'
+}
+
+type Row = Record<string, string | number | null>
+
+// Rounds away float noise such as 0.30000000000000004
+const clean = (value: number) => Number(value.toPrecision(12))
+
+//todo: ==== Nice step size for a span divided into about `targetSteps` steps: 1, 2, 5 or 10 times a power of 10 ====
+export const getNiceStepSize = (range: number, targetSteps: number): number => {
+    if (!(range > 0) || !(targetSteps > 0)) return 1
+
+    const rawStep = range / targetSteps
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)))
+    const normalizedStep = rawStep / magnitude
+
+    const niceStep = normalizedStep <= 1 ? 1
+        : normalizedStep <= 2 ? 2
+            : normalizedStep <= 5 ? 5
+                : 10
+
+    return niceStep * magnitude
+}
+
+//todo: ==== Value extent of the series, series sharing a stackId add up; missing values are skipped ====
+export const getSeriesExtent = (
+    data: Row[],
+    series: Array<{ dataKey: string; stackId?: string }>,
+    extraValues: number[] = [],  // e.g. annotation targets that must stay visible
+): [number, number] | null => {
+    let min = Infinity, max = -Infinity
+
+    const add = (value: number) => {
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+    }
+
+    data.forEach(item => {
+        const stacks: Record<string, number> = {}
+
+        series.forEach(({ dataKey, stackId }) => {
+            if (isMissingValue(item[dataKey])) return
+            const value = item[dataKey] as number
+
+            if (!stackId) return add(value)
+
+            // A stack spans from its first base (0) to every running total
+            const base = stacks[stackId] ?? 0
+            stacks[stackId] = base + value
+            add(base)
+            add(stacks[stackId])
+        })
+    })
+
+    extraValues.filter(value => isFinite(value)).forEach(add)
+
+    return min === Infinity ? null : [min, max]
+}
+
+//todo: ==== Ticks every nice step inside the domain ====
+export const calculateNiceTicks = ([min, max]: [number, number], tickCount = 6, step?: number) => {
+    if (tickCount <= 1 || max <= min) return [min]
+
+    const tickStep = step ?? getNiceStepSize(max - min, tickCount - 1)
+    const ticks: number[] = []
+
+    for (let tick = Math.ceil(clean(min / tickStep)) * tickStep; tick <= max + tickStep * 1e-9; tick += tickStep) {
+        ticks.push(clean(tick))
+        if (ticks.length > tickCount * 3) break
+    }
+
+    return ticks
+}
+
+//todo: ==== Linear domain from a data extent: zero, padding (never across 0) and nice ends, plus the tick step ====
+const calculateLinearDomain = (
+    extent: [number, number],
+    { padding = 0, tickCount = 6, includeZero = false, nice = true }: AxisDomainOptions,
+) => {
+    let [min, max] = extent
+
+    if (includeZero) {
+        min = Math.min(min, 0)
+        max = Math.max(max, 0)
+    }
+
+    // A flat series still gets a span to draw in
+    if (min === max) {
+        const spread = Math.abs(min) * 0.1 || 1
+        min = min >= 0 && min - spread < 0 ? 0 : min - spread
+        max = max <= 0 && max + spread > 0 ? 0 : max + spread
+    }
+
+    const span = max - min
+    const paddedMin = min >= 0 ? Math.max(0, min - span * padding) : min - span * padding
+    const paddedMax = max <= 0 ? Math.min(0, max + span * padding) : max + span * padding
+
+    const step = getNiceStepSize(paddedMax - paddedMin, Math.max(tickCount - 1, 1))
+    if (!nice) return { domain: [clean(paddedMin), clean(paddedMax)] as [number, number], step: undefined }
+
+    return {
+        domain: [clean(Math.floor(clean(paddedMin / step)) * step), clean(Math.ceil(clean(paddedMax / step)) * step)] as [number, number],
+        step,
+    }
+}
+
+//todo: ==== Nice domain for a data extent, honouring a fixed or function domain ====
+export const calculateNiceDomain = (extent: [number, number] | null, options: AxisDomainOptions = {}): [number, number] => {
+    const { domain } = options
+
+    if (Array.isArray(domain)) return domain
+    if (typeof domain === 'function') return domain(extent ?? [0, 0])
+    if (!extent) return [0, 100]
+
+    return calculateLinearDomain(extent, options).domain
+}
+
+//todo: ==== Scale, domain and ticks for one value axis; an auto domain can be held between updates (streaming) ====
+export const resolveAxisDomain = (
+    extent: [number, number] | null,
+    options: AxisDomainOptions = {},
+    holdDomain?: (domain: [number, number]) => [number, number],
+) => {
+    const { domain: domainOption, tickCount = 6 } = options
+    const scale = toRechartsScale(options.scale)
+    const isAuto = !domainOption || domainOption === 'auto'
+
+    // Log: decades around the positive values, a fixed domain only when it's positive
+    if (options.scale === 'log') {
+        const autoDomain = getLogDomain(extent ?? [])
+        const fixed = !isAuto ? calculateNiceDomain(extent, options) : null
+        const domain = fixed && fixed[0] > 0 ? fixed : holdDomain?.(autoDomain) ?? autoDomain
+        return { scale, domain, ticks: getLogTicks(domain, tickCount) }
+    }
+
+    // Symlog: the data extent, always crossing 0, with ±decade ticks
+    if (options.scale === 'symlog') {
+        const autoDomain: [number, number] = extent ? [Math.min(extent[0], 0), Math.max(extent[1], 0)] : [0, 1]
+        const domain = isAuto ? holdDomain?.(autoDomain) ?? autoDomain : calculateNiceDomain(extent, options)
+        return { scale, domain, ticks: getSymlogTicks(domain, tickCount) }
+    }
+
+    if (!isAuto || !extent) {
+        const domain = calculateNiceDomain(extent, options)
+        return { scale, domain, ticks: calculateNiceTicks(domain, tickCount) }
+    }
+
+    const { domain: autoDomain, step } = calculateLinearDomain(extent, options)
+    const domain = holdDomain?.(autoDomain) ?? autoDomain
+    // The step behind the nice ends is reused so both ends get a tick
+    return { scale, domain, ticks: calculateNiceTicks(domain, tickCount, domain === autoDomain ? step : undefined) }
+}
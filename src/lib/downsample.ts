@@ -0,0 +1,202 @@
+import { copyMissingCells, isMissingCell, isMissingValue, markMissingCells } from "./missing"
+
+export type DownsampleMethod = 'lttb' | 'minmax' | 'average'
+
+export interface DownsampleConfig {
+    method?: DownsampleMethod   // Default 'lttb'
+    maxPoints?: number          // Default: the chart width in pixels
+}
+
+export interface DownsampleOptions {
+    method: DownsampleMethod
+    maxPoints: number
+    xAxisKey: string
+    dataKeys: string[]
+}
+
+// One plotted point: the raw row drawn (index) and the raw rows it stands for (start..end)
+export interface DownsampleBucket {
+    index: number
+    start: number
+    end: number
+}
+
+type Row = Record<string, string | number | null>
+
+// Raw rows behind an averaged point, read by the tooltip
+const bucketSources = new WeakMap<object, Row[]>()
+
+// Missing values are null, they never decide which row a bucket keeps
+const toValue = (value: unknown) => isMissingValue(value) ? null : value as number
+
+//todo: ==== Split [start, end] into `count` contiguous index ranges ====
+const splitRange = (start: number, end: number, count: number): Array<[number, number]> => {
+    const length = end - start + 1
+    return Array.from({ length: count }, (_, index) => [
+        start + Math.floor(index * length / count),
+        start + Math.floor((index + 1) * length / count) - 1,
+    ])
+}
+
+//todo: ==== LTTB: per bucket, keep the row forming the largest triangle with its neighbours ====
+// Only series present in the rows compared count; a bucket with no values at all keeps its first row as the gap
+const getLttbBuckets = (data: Row[], { maxPoints, xAxisKey, dataKeys }: DownsampleOptions): DownsampleBucket[] => {
+    const last = data.length - 1
+    const getX = (index: number) => typeof data[index][xAxisKey] === 'number' ? data[index][xAxisKey] as number : index
+
+    // Each series is scaled to its own range so a large series doesn't decide for all
+    const scales = dataKeys.map(key => {
+        let min = Infinity, max = -Infinity
+        data.forEach(item => {
+            const value = toValue(item[key])
+            if (value === null) return
+            min = Math.min(min, value)
+            max = Math.max(max, value)
+        })
+        return (max - min) || 1
+    })
+    const getY = (index: number, series: number) => {
+        const value = toValue(data[index][dataKeys[series]])
+        return value === null ? null : value / scales[series]
+    }
+
+    // First and last rows are always kept
+    const ranges = splitRange(1, last - 1, maxPoints - 2)
+    const buckets: DownsampleBucket[] = [{ index: 0, start: 0, end: 0 }]
+    let previous = 0
+
+    ranges.forEach(([start, end], rangeIndex) => {
+        const [nextStart, nextEnd] = ranges[rangeIndex + 1] ?? [last, last]
+        const nextCount = nextEnd - nextStart + 1
+
+        // Average of the next bucket, per series over its present values
+        let averageX = 0
+        const averageY = dataKeys.map((_, series) => {
+            let sum = 0, count = 0
+            for (let index = nextStart; index <= nextEnd; index++) {
+                const y = getY(index, series)
+                if (y === null) continue
+                sum += y
+                count++
+            }
+            return count ? sum / count : null
+        })
+        for (let index = nextStart; index <= nextEnd; index++) averageX += getX(index) / nextCount
+
+        let best = start
+        let bestArea = -1
+        for (let index = start; index <= end; index++) {
+            let present = false
+            const area = dataKeys.reduce((sum, _, series) => {
+                const y = getY(index, series), previousY = getY(previous, series), nextY = averageY[series]
+                if (y === null) return sum
+                present = true
+                if (previousY === null || nextY === null) return sum
+                return sum + Math.abs(
+                    (getX(previous) - averageX) * (y - previousY)
+                    - (getX(previous) - getX(index)) * (nextY - previousY)
+                )
+            }, 0)
+
+            if (present && area > bestArea) {
+                best = index
+                bestArea = area
+            }
+        }
+
+        buckets.push({ index: best, start, end })
+        previous = best
+    })
+
+    buckets.push({ index: last, start: last, end: last })
+    return buckets
+}
+
+//todo: ==== Min-max: per bucket, keep the rows holding each series' lowest and highest value ====
+// The kept rows split the bucket between them, so together they still cover every raw row;
+// missing values are skipped, a bucket with none present keeps its first row as the gap
+const getMinMaxBuckets = (data: Row[], { maxPoints, dataKeys }: DownsampleOptions): DownsampleBucket[] => {
+    // Up to two rows per series and bucket
+    const bucketCount = Math.max(1, Math.floor(maxPoints / (2 * Math.max(dataKeys.length, 1))))
+
+    return splitRange(0, data.length - 1, bucketCount).flatMap(([start, end]) => {
+        const kept = new Set<number>()
+
+        dataKeys.forEach(key => {
+            let minIndex = -1, maxIndex = -1
+            let min = Infinity, max = -Infinity
+            for (let index = start; index <= end; index++) {
+                const value = toValue(data[index][key])
+                if (value === null) continue
+                if (value < min) { min = value; minIndex = index }
+                if (value > max) { max = value; maxIndex = index }
+            }
+            if (minIndex !== -1) kept.add(minIndex).add(maxIndex)
+        })
+        if (!kept.size) kept.add(start)
+
+        const indices = [...kept].sort((a, b) => a - b)
+        return indices.map((index, position) => ({
+            index,
+            start: position === 0 ? start : index,
+            end: position === indices.length - 1 ? end : indices[position + 1] - 1,
+        }))
+    })
+}
+
+//todo: ==== Split rows into buckets, one per plotted point; every row is its own bucket when under budget ====
+export const getDownsampleBuckets = (data: Row[], options: DownsampleOptions): DownsampleBucket[] => {
+    if (data.length <= options.maxPoints || options.maxPoints < 3) {
+        return data.map((_, index) => ({ index, start: index, end: index }))
+    }
+
+    switch (options.method) {
+        case 'minmax':
+            return getMinMaxBuckets(data, options)
+        case 'average':
+            return splitRange(0, data.length - 1, options.maxPoints).map(([start, end]) => ({ index: start, start, end }))
+        default:
+            return getLttbBuckets(data, options)
+    }
+}
+
+//todo: ==== Rows for the buckets: the raw row, or the series averaged over the bucket ====
+export const applyDownsampleBuckets = <T extends Row>(
+    data: T[],
+    buckets: DownsampleBucket[],
+    method: DownsampleMethod,
+    dataKeys: string[],
+): T[] => {
+    return buckets.map(({ index, start, end }) => {
+        if (method !== 'average' || start === end) return data[index]
+
+        const source = data.slice(start, end + 1)
+        const row: Record<string, string | number | null> = { ...data[index] }
+        const missingKeys: string[] = []
+
+        // Missing values are left out of the average, filled ones too unless the whole bucket was missing;
+        // an all-missing bucket stays marked as missing
+        dataKeys.forEach(key => {
+            const present = source.filter(item => !isMissingCell(item, key))
+            if (!present.length) missingKeys.push(key)
+
+            const values = (present.length ? present : source)
+                .map(item => item[key])
+                .filter((value): value is number => !isMissingValue(value))
+            if (values.length) row[key] = values.reduce((sum, value) => sum + value, 0) / values.length
+        })
+
+        bucketSources.set(row, source)
+        return markMissingCells(row as T, missingKeys)
+    })
+}
+
+//todo: ==== Downsample rows in one go ====
+export const downsampleRows = <T extends Row>(data: T[], options: DownsampleOptions): T[] => {
+    return applyDownsampleBuckets(data, getDownsampleBuckets(data, options), options.method, options.dataKeys)
+}
+
+//todo: ==== Raw rows an averaged point was built from, undefined for raw rows ====
+export const getDownsampleSource = (row: unknown): Row[] | undefined => {
+    return row && typeof row === 'object' ? bucketSources.get(row) : undefined
+}
@@ -0,0 +1,152 @@
+// Presentation properties copied from the live DOM, so classes and CSS variables
+// (e.g. the --color-* values ChartStyle injects) survive outside the page
+const INLINE_STYLE_PROPERTIES = [
+    'fill',
+    'fill-opacity',
+    'stroke',
+    'stroke-width',
+    'stroke-opacity',
+    'stroke-dasharray',
+    'stroke-linecap',
+    'stroke-linejoin',
+    'stop-color',
+    'stop-opacity',
+    'opacity',
+    'color',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'text-anchor',
+    'dominant-baseline',
+    'visibility',
+    'display',
+]
+
+const COLOR_ATTRIBUTES = ['fill', 'stroke', 'stop-color', 'color']
+
+//todo: ==== Copy computed styles onto the clone, element by element ====
+const inlineComputedStyles = (source: Element, target: Element) => {
+    const computed = window.getComputedStyle(source)
+
+    const style = INLINE_STYLE_PROPERTIES
+        .map(property => [property, computed.getPropertyValue(property)] as const)
+        .filter(([, value]) => value !== '')
+        .map(([property, value]) => `${property}:${value}`)
+        .join(';')
+
+    if (style) target.setAttribute('style', style)
+
+    // Attributes like fill="var(--color-desktop)" mean nothing without the page's CSS
+    COLOR_ATTRIBUTES.forEach(attribute => {
+        if (target.getAttribute(attribute)?.includes('var(')) {
+            target.setAttribute(attribute, computed.getPropertyValue(attribute))
+        }
+    })
+
+    Array.from(source.children).forEach((child, index) => {
+        const targetChild = target.children[index]
+        if (targetChild) inlineComputedStyles(child, targetChild)
+    })
+}
+
+//todo: ==== Serialize the Recharts SVG inside a chart container with resolved colors ====
+export const serializeChartSvg = (root: Element | null) => {
+    const svg = root?.querySelector<SVGSVGElement>('[data-slot="chart"] svg.recharts-surface')
+    if (!svg) return null
+
+    const clone = svg.cloneNode(true) as SVGSVGElement
+    inlineComputedStyles(svg, clone)
+
+    const { width, height } = svg.getBoundingClientRect()
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+    clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink')
+    clone.setAttribute('width', String(Math.round(width)))
+    clone.setAttribute('height', String(Math.round(height)))
+
+    return new XMLSerializer().serializeToString(clone)
+}
+
+//todo: ==== Draw an SVG string onto a canvas and return it as a PNG blob ====
+export const rasterizeSvg = (
+    svg: string,
+    { scale = 2, background }: { scale?: number; background?: string } = {},
+) => {
+    return new Promise<Blob | null>((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+        const image = new Image()
+
+        image.onload = () => {
+            const canvas = document.createElement('canvas')
+            canvas.width = image.width * scale
+            canvas.height = image.height * scale
+
+            const context = canvas.getContext('2d')
+            if (!context) {
+                URL.revokeObjectURL(url)
+                resolve(null)
+                return
+            }
+
+            if (background) {
+                context.fillStyle = background
+                context.fillRect(0, 0, canvas.width, canvas.height)
+            }
+
+            context.scale(scale, scale)
+            context.drawImage(image, 0, 0)
+            URL.revokeObjectURL(url)
+            canvas.toBlob(resolve, 'image/png')
+        }
+
+        image.onerror = () => {
+            URL.revokeObjectURL(url)
+            reject(new Error('Failed to rasterize chart SVG'))
+        }
+
+        image.src = url
+    })
+}
+
+const escapeCsvCell = (value: unknown) => {
+    const text = value === null || value === undefined
+        ? ''
+        : value instanceof Date ? value.toISOString() : String(value)
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+//todo: ==== Rows to CSV, columns default to every key that appears in the rows ====
+export const toCsv = (rows: Array<Record<string, unknown>>, columns?: string[]) => {
+    const header = columns ?? Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+
+    return [
+        header.map(escapeCsvCell).join(','),
+        ...rows.map(row => header.map(column => escapeCsvCell(row[column])).join(',')),
+    ].join('\r\n')
+}
+
+//todo: ==== Trigger a browser download for a blob or string ====
+export const downloadFile = (content: Blob | string, filename: string, type = 'text/plain;charset=utf-8') => {
+    const blob = typeof content === 'string' ? new Blob([content], { type }) : content
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+
+    link.href = url
+    link.download = filename
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+
+    // Revoking right after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+//todo: ==== File-safe base name from a chart title ====
+export const toExportFilename = (title?: string) => {
+    const slug = (title ?? '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+
+    return slug || 'chart'
+}
@@ -0,0 +1,150 @@
+export type ValueFormatType =
+    | 'compact'
+    | 'full'
+    | 'currency'
+    | 'percent'
+    | 'unit'
+    | 'duration'
+    | 'bytes'
+
+export interface ValueFormatSpec {
+    type: ValueFormatType
+    locale?: string
+    currency?: string                   // ISO 4217 code for 'currency', defaults to USD
+    unit?: string                       // Intl unit ('kilometer-per-hour') or a literal suffix ('req/s') for 'unit'
+    percentScale?: 'whole' | 'fraction' // 'whole': 25 -> 25%, 'fraction': 0.25 -> 25%
+    durationUnit?: 'ms' | 's' | 'm' | 'h' // Unit of the raw value for 'duration'
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+}
+
+// A bare type uses the defaults for that type
+export type ValueFormat = ValueFormatType | ValueFormatSpec
+
+export interface ValueFormatDefaults {
+    locale?: string
+    currency?: string
+}
+
+const DURATION_UNITS = [
+    { unit: 'day', ms: 24 * 60 * 60 * 1000 },
+    { unit: 'hour', ms: 60 * 60 * 1000 },
+    { unit: 'minute', ms: 60 * 1000 },
+    { unit: 'second', ms: 1000 },
+] as const
+
+const DURATION_INPUT_MS = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }
+
+const BYTE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte', 'petabyte'] as const
+
+export const resolveValueFormat = (format: ValueFormat): ValueFormatSpec => {
+    return typeof format === 'string' ? { type: format } : format
+}
+
+const fractionDigits = (spec: ValueFormatSpec, fallbackMax: number) => ({
+    minimumFractionDigits: spec.minimumFractionDigits,
+    maximumFractionDigits: Math.max(spec.maximumFractionDigits ?? fallbackMax, spec.minimumFractionDigits ?? 0),
+})
+
+//todo: ==== Format with a literal suffix when the unit isn't an Intl unit ====
+const formatUnit = (value: number, unit: string, locale: string | undefined, spec: ValueFormatSpec) => {
+    try {
+        return new Intl.NumberFormat(locale, { style: 'unit', unit, ...fractionDigits(spec, 2) }).format(value)
+    } catch {
+        return `${new Intl.NumberFormat(locale, fractionDigits(spec, 2)).format(value)} ${unit}`
+    }
+}
+
+//todo: ==== Human readable duration, two largest units: "2h 5m", "3.2s", "850ms" ====
+const formatDuration = (value: number, locale: string | undefined, spec: ValueFormatSpec) => {
+    const totalMs = Math.abs(value) * DURATION_INPUT_MS[spec.durationUnit ?? 'ms']
+    const sign = value < 0 ? '-' : ''
+    const narrow = (amount: number, unit: string, maximumFractionDigits = 0) =>
+        new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'narrow', maximumFractionDigits }).format(amount)
+
+    if (totalMs < 1000) return `${sign}${narrow(totalMs, 'millisecond')}`
+    if (totalMs < 60 * 1000) return `${sign}${narrow(totalMs / 1000, 'second', spec.maximumFractionDigits ?? 1)}`
+
+    const index = DURATION_UNITS.findIndex(item => totalMs >= item.ms)
+    const major = DURATION_UNITS[index]
+    const minor = DURATION_UNITS[index + 1]
+    const majorCount = Math.floor(totalMs / major.ms)
+    const minorCount = minor ? Math.floor((totalMs - majorCount * major.ms) / minor.ms) : 0
+
+    return minorCount > 0
+        ? `${sign}${narrow(majorCount, major.unit)} ${narrow(minorCount, minor.unit)}`
+        : `${sign}${narrow(majorCount, major.unit)}`
+}
+
+//todo: ==== Binary byte sizes: "512 byte", "1.5 kB", "3.2 GB" ====
+const formatBytes = (value: number, locale: string | undefined, spec: ValueFormatSpec) => {
+    let amount = Math.abs(value)
+    let index = 0
+
+    while (amount >= 1024 && index < BYTE_UNITS.length - 1) {
+        amount /= 1024
+        index++
+    }
+
+    return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit: BYTE_UNITS[index],
+        unitDisplay: 'short',
+        ...fractionDigits(spec, index === 0 ? 0 : 1),
+    }).format(value < 0 ? -amount : amount)
+}
+
+//todo: ==== Format a number according to a format spec ====
+export const formatValue = (value: number, format: ValueFormat = 'full', defaults: ValueFormatDefaults = {}) => {
+    if (typeof value !== 'number' || !isFinite(value)) return String(value)
+
+    const spec = resolveValueFormat(format)
+    const locale = spec.locale ?? defaults.locale
+
+    switch (spec.type) {
+        case 'compact':
+            return new Intl.NumberFormat(locale, { notation: 'compact', ...fractionDigits(spec, 1) }).format(value)
+
+        case 'currency':
+            return new Intl.NumberFormat(locale, {
+                style: 'currency',
+                currency: spec.currency ?? defaults.currency ?? 'USD',
+                ...fractionDigits(spec, 2),
+            }).format(value)
+
+        case 'percent':
+            return new Intl.NumberFormat(locale, {
+                style: 'percent',
+                ...fractionDigits(spec, 1),
+            }).format(spec.percentScale === 'fraction' ? value : value / 100)
+
+        case 'unit':
+            return spec.unit
+                ? formatUnit(value, spec.unit, locale, spec)
+                : new Intl.NumberFormat(locale, fractionDigits(spec, 2)).format(value)
+
+        case 'duration':
+            return formatDuration(value, locale, spec)
+
+        case 'bytes':
+            return formatBytes(value, locale, spec)
+
+        case 'full':
+        default:
+            return new Intl.NumberFormat(locale, fractionDigits(spec, 3)).format(value)
+    }
+}
+
+//todo: ==== Build a reusable (value) => string formatter, e.g. for tickFormatter ====
+export const createValueFormatter = (format: ValueFormat, defaults: ValueFormatDefaults = {}) => {
+    return (value: number) => formatValue(value, format, defaults)
+}
+
+//todo: ==== Axis tick formatter, an explicit tickFormatter wins over a format spec ====
+export const resolveAxisFormatter = (
+    config: { tickFormatter?: (value: number) => string; format?: ValueFormat } | undefined,
+    locale?: string,
+) => {
+    if (config?.tickFormatter) return config.tickFormatter
+    return config?.format ? createValueFormatter(config.format, { locale }) : undefined
+}
@@ -0,0 +1,91 @@
+export type MissingValueMode = 'gap' | 'zero' | 'interpolate' | 'carry-forward'
+
+type Row = Record<string, string | number | null>
+
+// Keys that were missing in the input, per resolved row, read by the tooltip
+const missingCells = new WeakMap<object, Set<string>>()
+
+//todo: ==== Anything but a finite number is missing (null, undefined, NaN, strings) ====
+export const isMissingValue = (value: unknown): boolean => {
+    return typeof value !== 'number' || !isFinite(value)
+}
+
+//todo: ==== Fill one series: leading/trailing gaps stay null unless the mode is 'zero' ====
+const fillSeries = (values: Array<number | null>, positions: number[], mode: MissingValueMode) => {
+    if (mode === 'zero') return values.map(value => value ?? 0)
+    if (mode === 'gap') return values
+
+    let previous: number | null = null
+
+    return values.map((value, index) => {
+        if (value !== null) {
+            previous = index
+            return value
+        }
+
+        if (previous === null) return null
+        if (mode === 'carry-forward') return values[previous]
+
+        // Linear interpolation between the neighbours, by x when the axis is numeric
+        let next = index + 1
+        while (next < values.length && values[next] === null) next++
+        if (next === values.length) return null
+
+        const from = values[previous] as number
+        const to = values[next] as number
+        const span = positions[next] - positions[previous]
+        return span ? from + (to - from) * (positions[index] - positions[previous]) / span : from
+    })
+}
+
+//todo: ==== Apply the missing-value mode to every series; rows without gaps are kept as is ====
+export const resolveMissingValues = <T extends Row>(
+    data: T[],
+    dataKeys: string[],
+    mode: MissingValueMode = 'gap',
+    xAxisKey?: string,
+): T[] => {
+    const hasMissing = data.some(item => dataKeys.some(key => isMissingValue(item[key])))
+    if (!hasMissing) return data
+
+    const isNumericAxis = !!xAxisKey && data.every(item => typeof item[xAxisKey] === 'number')
+    const positions = data.map((item, index) => isNumericAxis ? item[xAxisKey as string] as number : index)
+
+    const filled = dataKeys.map(key => fillSeries(
+        data.map(item => isMissingValue(item[key]) ? null : item[key] as number),
+        positions,
+        mode,
+    ))
+
+    return data.map((item, index) => {
+        const missingKeys = dataKeys.filter(key => isMissingValue(item[key]))
+        if (!missingKeys.length) return item
+
+        const row: Record<string, unknown> = { ...item }
+        dataKeys.forEach((key, keyIndex) => {
+            if (missingKeys.includes(key)) row[key] = filled[keyIndex][index]
+        })
+
+        missingCells.set(row, new Set(missingKeys))
+        return row as T
+    })
+}
+
+//todo: ==== Mark values of a derived row (normalized, averaged) as missing in the input ====
+export const markMissingCells = <T extends object>(row: T, dataKeys: string[]): T => {
+    if (dataKeys.length) missingCells.set(row, new Set(dataKeys))
+    return row
+}
+
+//todo: ==== Carry the marks over to a copy of a row, the markers are keyed on the row object ====
+export const copyMissingCells = <T extends object>(source: object, row: T): T => {
+    const keys = missingCells.get(source)
+    if (keys) missingCells.set(row, keys)
+    return row
+}
+
+//todo: ==== Whether a plotted value was missing in the input (and possibly filled) ====
+export const isMissingCell = (row: unknown, dataKey: unknown): boolean => {
+    if (!row || typeof row !== 'object') return false
+    return missingCells.get(row)?.has(`${dataKey}`) ?? false
+}
@@ -0,0 +1,94 @@
+import type { ScaleType } from "recharts/types/util/types"
+import type { YAxisSide } from "./axis"
+import { copyMissingCells } from "./missing"
+
+export type AxisScale = 'linear' | 'log' | 'sqrt' | 'symlog'
+
+// Rounds away float noise such as 0.30000000000000004
+const clean = (value: number) => Number(value.toPrecision(12))
+
+//todo: ==== Recharts scale name; 'symlog' resolves to d3's scaleSymlog even though ScaleType doesn't list it ====
+export const toRechartsScale = (scale?: AxisScale): ScaleType | undefined => {
+    if (!scale || scale === 'linear') return undefined
+    return scale as ScaleType
+}
+
+//todo: ==== Decade-aligned domain for a log axis, from the positive values only ====
+export const getLogDomain = (values: number[]): [number, number] => {
+    const positive = values.filter(value => value > 0 && isFinite(value))
+    if (!positive.length) return [1, 10]
+
+    const min = positive.reduce((acc, value) => Math.min(acc, value))
+    const max = positive.reduce((acc, value) => Math.max(acc, value))
+    const lower = clean(10 ** Math.floor(Math.log10(min)))
+    const upper = clean(10 ** Math.ceil(Math.log10(max)))
+
+    return [lower, upper > lower ? upper : clean(lower * 10)]
+}
+
+//todo: ==== Log ticks: one per decade (thinned to tickCount), with 2x and 5x steps when the span is short ====
+export const getLogTicks = ([min, max]: [number, number], tickCount = 6) => {
+    if (min <= 0 || max <= min) return [min, max]
+
+    const decades: number[] = []
+    for (let exponent = Math.floor(Math.log10(min)); 10 ** exponent <= max * (1 + 1e-9); exponent++) {
+        decades.push(clean(10 ** exponent))
+    }
+
+    const steps = decades.length <= 2 ? [1, 2, 5] : decades.length <= 3 ? [1, 3] : [1]
+    const ticks = decades
+        .flatMap(decade => steps.map(step => clean(decade * step)))
+        .filter(tick => tick >= min * (1 - 1e-9) && tick <= max * (1 + 1e-9))
+
+    // Keep every n-th decade when there are too many
+    const every = Math.ceil(ticks.length / Math.max(tickCount, 2))
+    return every > 1 ? ticks.filter((_, index) => index % every === 0) : ticks
+}
+
+//todo: ==== Symlog ticks: 0 and ±1, ±10, ±100... inside the domain, thinned to tickCount ====
+export const getSymlogTicks = ([min, max]: [number, number], tickCount = 6) => {
+    const largest = Math.max(Math.abs(min), Math.abs(max), 1)
+    const magnitudes: number[] = []
+    for (let exponent = 0; 10 ** exponent <= largest * (1 + 1e-9); exponent++) {
+        magnitudes.push(clean(10 ** exponent))
+    }
+
+    const every = Math.ceil(magnitudes.length / Math.max(Math.ceil(tickCount / (min < 0 ? 2 : 1)), 1))
+    const kept = magnitudes.filter((_, index) => index % every === 0 || index === magnitudes.length - 1)
+
+    return [...kept.map(value => -value).reverse(), 0, ...kept]
+        .filter(tick => tick >= min && tick <= max)
+}
+
+//todo: ==== Series plotted against a log axis ====
+export const getLogScaleKeys = (
+    series: Array<{ dataKey: string; yAxisId?: YAxisSide }>,
+    scales: Partial<Record<YAxisSide, AxisScale>>,
+) => {
+    return series.filter(item => scales[item.yAxisId ?? 'left'] === 'log').map(item => item.dataKey)
+}
+
+//todo: ==== Values <= 0 can't be placed on a log axis: they become missing, and are counted for a warning ====
+export const dropNonPositiveValues = <T extends Record<string, string | number | null>>(data: T[], dataKeys: string[]) => {
+    let dropped = 0
+
+    const rows = data.map(item => {
+        const keys = dataKeys.filter(key => typeof item[key] === 'number' && (item[key] as number) <= 0)
+        if (!keys.length) return item
+
+        dropped += keys.length
+        const row: Record<string, unknown> = { ...item }
+        keys.forEach(key => { row[key] = null })
+        return copyMissingCells(item, row as T)
+    })
+
+    return { rows, dropped }
+}
+
+//todo: ==== Warning shown under the chart when a log axis left values out ====
+export const getLogScaleNotice = (dropped: number) => {
+    if (!dropped) return null
+    return dropped === 1
+        ? "1 value ≤ 0 can't be shown on a log scale and was left out."
+        : `${dropped} values ≤ 0 can't be shown on a log scale and were left out.`
+}
@@ -0,0 +1,439 @@
+import type { AreaChartComponentProps, AreaConfig, AreaYAxisConfig } from "../components/AreaChart/AreaChart"
+import type { BarChartComponentProps, BarConfig } from "../components/BarChart/BarChart"
+import type { LineChartComponentProps, LineConfig, LineYAxisConfig } from "../components/LineChart/LineChart"
+import type { PieChartProps } from "../components/PieChart/PieChart"
+import type { RadialChartProps } from "../components/RadialShapeChart/RadialShapeChart"
+import type { ChartConfig } from "../components/ui/chart"
+import type { ValueFormat } from "./format"
+
+export const CHART_SPEC_VERSION = 1
+
+export type ChartSpecType = 'area' | 'bar' | 'line' | 'pie' | 'radial'
+
+// Functions and React nodes can't be sent as JSON: formatters become format specs and the trend icon a direction
+type SpecAxis<T> = Omit<T, 'tickFormatter' | 'customFormatter' | 'domain'> & {
+    domain?: [number, number] | 'auto'
+}
+
+// Omit kept per union member, so a spec entry still has either a color or a theme, as ChartConfig does
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+export type ChartSpecSeriesConfig = DistributiveOmit<ChartConfig[string], 'label' | 'icon' | 'valueFormatter'> & {
+    label?: string
+}
+
+export type ChartSpecFooter = Omit<NonNullable<AreaChartComponentProps['footerContent']>, 'trendingIcon'> & {
+    trendingIcon?: 'up' | 'down'
+}
+
+// Category labels: cut to `length` characters ("January" -> "Jan"), or numeric categories through a value format
+export type ChartSpecXAxisFormat = ValueFormat | { type: 'truncate'; length: number }
+
+interface ChartSpecBase<T extends ChartSpecType> {
+    version: typeof CHART_SPEC_VERSION
+    type: T
+    title?: string
+    description?: string
+    chartConfig: Record<string, ChartSpecSeriesConfig>
+    locale?: string
+    showDataTable?: boolean
+    footer?: ChartSpecFooter
+}
+
+interface CartesianSpecAxes<Y> {
+    xAxisFormat?: ChartSpecXAxisFormat
+    yAxis?: SpecAxis<Y>
+    rightYAxis?: SpecAxis<Y>
+}
+
+export type AreaChartSpec = ChartSpecBase<'area'>
+    & Pick<AreaChartComponentProps, 'data' | 'variant' | 'xAxisKey' | 'xAxisType' | 'showGrid' | 'showTooltip' | 'showLegend' | 'showDots' | 'useGradient' | 'missingValues' | 'annotations'>
+    & CartesianSpecAxes<AreaYAxisConfig>
+    & { series?: AreaConfig[] }
+
+export type BarChartSpec = ChartSpecBase<'bar'>
+    & Pick<BarChartComponentProps, 'data' | 'variant' | 'xAxisKey' | 'xAxisType' | 'layout' | 'showGrid' | 'showTooltip' | 'showLegend' | 'showLabels' | 'labelPosition' | 'positiveColor' | 'negativeColor' | 'missingValues' | 'annotations'>
+    & CartesianSpecAxes<NonNullable<BarChartComponentProps['yAxisConfig']>>
+    & { series?: BarConfig[] }
+
+export type LineChartSpec = ChartSpecBase<'line'>
+    & Pick<LineChartComponentProps, 'data' | 'xAxisKey' | 'xAxisType' | 'showLegend' | 'missingValues' | 'annotations'>
+    & CartesianSpecAxes<LineYAxisConfig>
+    & { series?: LineConfig[]; dot?: boolean }
+
+export type PieChartSpec = ChartSpecBase<'pie'>
+    & Pick<PieChartProps, 'data' | 'dataKey' | 'nameKey' | 'legendKey' | 'innerRadius' | 'outerRadius' | 'cornerRadius' | 'paddingAngle' | 'strokeWidth' | 'stroke' | 'showLegend' | 'showTooltip' | 'showActiveSection' | 'enableAnimation'>
+
+export type RadialChartSpec = ChartSpecBase<'radial'>
+    & Pick<RadialChartProps, 'data' | 'centerLabel' | 'innerRadius' | 'outerRadius' | 'cornerRadius' | 'startAngle' | 'numberSize' | 'labelSize' | 'animationDuration' | 'centerOffset'>
+
+export type ChartSpec = AreaChartSpec | BarChartSpec | LineChartSpec | PieChartSpec | RadialChartSpec
+
+export interface ChartSpecIssue {
+    path: string    // e.g. "series[1].dataKey", empty for the spec itself
+    message: string
+}
+
+export type ChartSpecValidation =
+    | { valid: true; spec: ChartSpec; issues: [] }
+    | { valid: false; issues: ChartSpecIssue[] }
+
+export class ChartSpecError extends Error {
+    issues: ChartSpecIssue[]
+
+    constructor(issues: ChartSpecIssue[]) {
+        super(`Invalid chart spec:\n${formatChartSpecIssues(issues)}`)
+        this.name = 'ChartSpecError'
+        this.issues = issues
+    }
+}
+
+type Check = (value: unknown, path: string, issues: ChartSpecIssue[]) => void
+
+// One check per spec property, so a property added to a spec type can't be left unvalidated
+type FieldChecks<T> = { [K in keyof T]-?: Check }
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Own keys only: "toString" or "__proto__" in a spec are unknown properties, not inherited ones
+const hasOwn = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key)
+
+const describe = (value: unknown) => {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'an array'
+    if (typeof value === 'object') return 'an object'
+    return typeof value === 'string' ? `"${value}"` : String(value)
+}
+
+const joinPath = (path: string, key: string | number) => {
+    if (typeof key === 'number') return `${path}[${key}]`
+    return path ? `${path}.${key}` : key
+}
+
+//todo: ==== Primitive checks ====
+const expect = (test: (value: unknown) => boolean, expected: string): Check => (value, path, issues) => {
+    if (!test(value)) issues.push({ path, message: `expected ${expected}, got ${describe(value)}` })
+}
+
+const string = expect(value => typeof value === 'string', 'a string')
+const number = expect(value => typeof value === 'number' && isFinite(value), 'a number')
+const boolean = expect(value => typeof value === 'boolean', 'true or false')
+
+const oneOf = (...options: Array<string | number>): Check => expect(
+    value => options.includes(value as string | number),
+    `one of ${options.map(option => JSON.stringify(option)).join(', ')}`,
+)
+
+//todo: ==== Structural checks ====
+const arrayOf = (item: Check): Check => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array, got ${describe(value)}` })
+        return
+    }
+    value.forEach((entry, index) => item(entry, joinPath(path, index), issues))
+}
+
+const recordOf = (item: Check): Check => (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` })
+        return
+    }
+    Object.entries(value).forEach(([key, entry]) => item(entry, joinPath(path, key), issues))
+}
+
+// Unknown properties are reported too, they're usually typos from the sender
+const object = (fields: Record<string, Check>, required: string[] = [], allowUnknown = false): Check => (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` })
+        return
+    }
+
+    required
+        .filter(key => value[key] === undefined)
+        .forEach(key => issues.push({ path: joinPath(path, key), message: 'is required' }))
+
+    Object.entries(value).forEach(([key, entry]) => {
+        if (entry === undefined) return
+        if (hasOwn(fields, key)) return fields[key](entry, joinPath(path, key), issues)
+        if (!allowUnknown) issues.push({ path: joinPath(path, key), message: `unknown property` })
+    })
+}
+
+//todo: ==== Shared value checks ====
+const VALUE_FORMAT_TYPES = ['compact', 'full', 'currency', 'percent', 'unit', 'duration', 'bytes']
+const MISSING_VALUE_MODES = ['gap', 'zero', 'interpolate', 'carry-forward']
+const AXIS_SCALES = ['linear', 'log', 'sqrt', 'symlog']
+const Y_AXIS_SIDES = ['left', 'right']
+
+const valueFormat: Check = (value, path, issues) => {
+    if (typeof value === 'string') return oneOf(...VALUE_FORMAT_TYPES)(value, path, issues)
+
+    object({
+        type: oneOf(...VALUE_FORMAT_TYPES),
+        locale: string,
+        currency: string,
+        unit: string,
+        percentScale: oneOf('whole', 'fraction'),
+        durationUnit: oneOf('ms', 's', 'm', 'h'),
+        minimumFractionDigits: number,
+        maximumFractionDigits: number,
+    }, ['type'])(value, path, issues)
+}
+
+const xAxisFormat: Check = (value, path, issues) => {
+    if (isRecord(value) && value.type === 'truncate') {
+        return object({ type: string, length: number }, ['length'])(value, path, issues)
+    }
+    valueFormat(value, path, issues)
+}
+
+const domain: Check = (value, path, issues) => {
+    if (value === 'auto') return
+    if (!Array.isArray(value) || value.length !== 2 || !value.every(entry => typeof entry === 'number' && isFinite(entry))) {
+        issues.push({ path, message: `expected "auto" or [min, max], got ${describe(value)}` })
+        return
+    }
+    if (value[0] >= value[1]) issues.push({ path, message: `min (${value[0]}) must be below max (${value[1]})` })
+}
+
+const axisFields = {
+    domain,
+    padding: number,
+    tickCount: number,
+    includeZero: boolean,
+    nice: boolean,
+    scale: oneOf(...AXIS_SCALES),
+    format: valueFormat,
+    hide: boolean,
+}
+
+// Rows may hold null for a missing value, the components treat it as a gap
+const dataRows = arrayOf(recordOf(expect(
+    value => value === null || typeof value === 'string' || typeof value === 'number',
+    'a string, number or null',
+)))
+
+// Category or time positions on the x axis
+const xPosition = expect(value => typeof value === 'string' || typeof value === 'number', 'a string or number')
+
+const ANNOTATION_FIELDS: Record<string, Record<string, Check>> = {
+    'horizontal-line': { y: number, strokeDasharray: string },
+    'vertical-line': { x: xPosition, strokeDasharray: string },
+    'y-range': { y1: number, y2: number },
+    'x-range': { x1: xPosition, x2: xPosition },
+    'point': { x: xPosition, y: number },
+}
+
+const annotation: Check = (value, path, issues) => {
+    if (!isRecord(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` })
+        return
+    }
+
+    const type = value.type
+    if (typeof type !== 'string' || !hasOwn(ANNOTATION_FIELDS, type)) {
+        return oneOf(...Object.keys(ANNOTATION_FIELDS))(type, joinPath(path, 'type'), issues)
+    }
+
+    const fields = ANNOTATION_FIELDS[type]
+    object({ type: string, id: string, label: string, color: string, yAxisId: oneOf('left', 'right'), ...fields }, Object.keys(fields).filter(key => key !== 'strokeDasharray'))(value, path, issues)
+}
+
+const seriesConfig: Check = (value, path, issues) => {
+    object({
+        label: string,
+        color: string,
+        theme: object({ light: string, dark: string }, ['light', 'dark']),
+        format: valueFormat,
+        unit: string,
+        precision: number,
+    })(value, path, issues)
+
+    if (isRecord(value) && value.color !== undefined && value.theme !== undefined) {
+        issues.push({ path: joinPath(path, 'theme'), message: 'set either color or theme, not both' })
+    }
+}
+
+const chartConfig = recordOf(seriesConfig)
+
+const footer = object({
+    mainText: string,
+    subText: string,
+    showTrending: boolean,
+    trendingColor: string,
+    trendingIcon: oneOf('up', 'down'),
+    trend: object({
+        seriesKey: string,
+        compare: oneOf('previous-point', 'first-last', 'period-over-period'),
+        period: number,
+        template: string,
+        format: valueFormat,
+        invert: boolean,
+    }, ['seriesKey', 'compare']),
+})
+
+const baseFields: FieldChecks<ChartSpecBase<ChartSpecType>> = {
+    version: oneOf(CHART_SPEC_VERSION),
+    type: oneOf('area', 'bar', 'line', 'pie', 'radial'),
+    title: string,
+    description: string,
+    chartConfig,
+    locale: string,
+    showDataTable: boolean,
+    footer,
+}
+
+const cartesianFields = {
+    data: dataRows,
+    xAxisKey: string,
+    xAxisType: oneOf('category', 'time'),
+    xAxisFormat,
+    showLegend: boolean,
+    missingValues: oneOf(...MISSING_VALUE_MODES),
+    annotations: arrayOf(annotation),
+}
+
+//todo: ==== Property checks per chart type ====
+const SPEC_FIELDS: { [T in ChartSpecType]: FieldChecks<Extract<ChartSpec, { type: T }>> } = {
+    area: {
+        ...baseFields,
+        ...cartesianFields,
+        variant: oneOf('default', 'linear', 'step', 'stacked', 'stacked-expanded', 'gradient', 'legend', 'interactive'),
+        showGrid: boolean,
+        showTooltip: boolean,
+        showDots: boolean,
+        useGradient: boolean,
+        yAxis: object(axisFields),
+        rightYAxis: object(axisFields),
+        series: arrayOf(object({
+            dataKey: string,
+            fill: string,
+            stroke: string,
+            stackId: string,
+            type: oneOf('monotone', 'linear', 'step', 'stepBefore', 'stepAfter', 'natural', 'basis'),
+            fillOpacity: number,
+            yAxisId: oneOf(...Y_AXIS_SIDES),
+        }, ['dataKey'])),
+    },
+    bar: {
+        ...baseFields,
+        ...cartesianFields,
+        variant: oneOf('default', 'horizontal', 'multiple', 'stacked', 'stacked-legend', 'label', 'negative', 'mixed', 'interactive'),
+        layout: oneOf('vertical', 'horizontal'),
+        showGrid: boolean,
+        showTooltip: boolean,
+        showLabels: boolean,
+        labelPosition: oneOf('top', 'center', 'bottom', 'inside', 'insideTop', 'insideBottom'),
+        positiveColor: string,
+        negativeColor: string,
+        yAxis: object({ ...axisFields, dataKey: string }),
+        rightYAxis: object(axisFields),
+        series: arrayOf(object({
+            dataKey: string,
+            fill: string,
+            radius: expect(
+                value => (typeof value === 'number' && isFinite(value))
+                    || (Array.isArray(value) && value.length === 4 && value.every(entry => typeof entry === 'number')),
+                'a number or [topLeft, topRight, bottomRight, bottomLeft]',
+            ),
+            stackId: string,
+            name: string,
+            yAxisId: oneOf(...Y_AXIS_SIDES),
+        }, ['dataKey'])),
+    },
+    line: {
+        ...baseFields,
+        ...cartesianFields,
+        dot: boolean,
+        yAxis: object({ ...axisFields, formatType: oneOf('auto', 'full', 'compact', 'currency', 'percentage') }),
+        rightYAxis: object({ ...axisFields, formatType: oneOf('auto', 'full', 'compact', 'currency', 'percentage') }),
+        series: arrayOf(object({
+            dataKey: string,
+            stroke: string,
+            strokeWidth: number,
+            type: oneOf('monotone', 'linear', 'step', 'stepBefore', 'stepAfter'),
+            dot: boolean,
+            yAxisId: oneOf(...Y_AXIS_SIDES),
+        }, ['dataKey'])),
+    },
+    pie: {
+        ...baseFields,
+        data: arrayOf(object({ category: string, value: number, percentage: number, fill: string }, ['category', 'value', 'percentage'], true)),
+        dataKey: string,
+        nameKey: string,
+        legendKey: string,
+        innerRadius: number,
+        outerRadius: number,
+        cornerRadius: number,
+        paddingAngle: number,
+        strokeWidth: number,
+        stroke: string,
+        showLegend: boolean,
+        showTooltip: boolean,
+        showActiveSection: boolean,
+        enableAnimation: boolean,
+    },
+    radial: {
+        ...baseFields,
+        data: object({ category: string, value: number, percentage: number, fill: string }, ['category', 'value', 'percentage']),
+        centerLabel: string,
+        innerRadius: number,
+        outerRadius: number,
+        cornerRadius: number,
+        startAngle: number,
+        numberSize: oneOf('sm', 'md', 'lg', 'xl'),
+        labelSize: oneOf('xs', 'sm', 'md'),
+        animationDuration: number,
+        centerOffset: object({ x: number, y: number }),
+    },
+}
+
+const isChartSpecType = (value: unknown): value is ChartSpecType => {
+    return typeof value === 'string' && hasOwn(SPEC_FIELDS, value)
+}
+
+//todo: ==== Series must be configured in chartConfig, that's where their color and label come from ====
+const checkSeriesKeys = (spec: Record<string, unknown>, issues: ChartSpecIssue[]) => {
+    if (!Array.isArray(spec.series) || !isRecord(spec.chartConfig)) return
+
+    const config = spec.chartConfig
+    spec.series.forEach((series, index) => {
+        if (!isRecord(series) || typeof series.dataKey !== 'string' || hasOwn(config, series.dataKey)) return
+        issues.push({ path: `series[${index}].dataKey`, message: `"${series.dataKey}" has no entry in chartConfig` })
+    })
+}
+
+//todo: ==== Validate an untrusted spec (e.g. parsed JSON), every problem is reported with its path ====
+export const validateChartSpec = (spec: unknown): ChartSpecValidation => {
+    const issues: ChartSpecIssue[] = []
+
+    if (!isRecord(spec)) {
+        return { valid: false, issues: [{ path: '', message: `expected a chart spec object, got ${describe(spec)}` }] }
+    }
+
+    if (spec.version !== CHART_SPEC_VERSION) {
+        const message = spec.version === undefined
+            ? 'is required'
+            : `unsupported version ${describe(spec.version)}, this renderer reads version ${CHART_SPEC_VERSION}`
+        return { valid: false, issues: [{ path: 'version', message }] }
+    }
+
+    const type = spec.type
+    if (!isChartSpecType(type)) {
+        return { valid: false, issues: [{ path: 'type', message: `expected one of "area", "bar", "line", "pie", "radial", got ${describe(type)}` }] }
+    }
+
+    object(SPEC_FIELDS[type], ['version', 'type', 'chartConfig', 'data'])(spec, '', issues)
+    checkSeriesKeys(spec, issues)
+
+    return issues.length
+        ? { valid: false, issues }
+        : { valid: true, spec: spec as unknown as ChartSpec, issues: [] }
+}
+
+//todo: ==== One "path: message" line per issue ====
+export const formatChartSpecIssues = (issues: ChartSpecIssue[]) => {
+    return issues.map(issue => `  - ${issue.path || '(spec)'}: ${issue.message}`).join('\n')
+}
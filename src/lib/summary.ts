@@ -0,0 +1,43 @@
+export type SeriesTrend = 'up' | 'down' | 'flat'
+
+export interface SeriesSummary {
+    dataKey: string
+    min: number
+    max: number
+    minCategory: unknown    // Category (x value) where the minimum occurs
+    maxCategory: unknown
+    first: number
+    last: number
+    trend: SeriesTrend
+}
+
+//todo: ==== Min, max and first-to-last trend per series, skipping non-numeric values ====
+export const summarizeSeries = (
+    rows: Array<Record<string, unknown>>,
+    categoryKey: string,
+    dataKeys: string[],
+): SeriesSummary[] => {
+    return dataKeys.flatMap(dataKey => {
+        const points = rows
+            .filter(row => typeof row[dataKey] === 'number' && isFinite(row[dataKey] as number))
+            .map(row => ({ category: row[categoryKey], value: row[dataKey] as number }))
+
+        if (!points.length) return []
+
+        const minPoint = points.reduce((acc, point) => point.value < acc.value ? point : acc)
+        const maxPoint = points.reduce((acc, point) => point.value > acc.value ? point : acc)
+        const first = points[0].value
+        const last = points[points.length - 1].value
+
+        return [{
+            dataKey,
+            min: minPoint.value,
+            max: maxPoint.value,
+            minCategory: minPoint.category,
+            maxCategory: maxPoint.category,
+            first,
+            last,
+            trend: last > first ? 'up' : last < first ? 'down' : 'flat',
+        }]
+    })
+}
@@ -0,0 +1,308 @@
+import type { ChartConfig } from "../components/ui/chart"
+import { toDate } from "./date"
+import { isMissingValue } from "./missing"
+
+export type ChartAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count'
+
+export type TimeBucketUnit = 'hour' | 'day' | 'week' | 'month' | 'quarter'
+
+type SourceRow = Record<string, unknown>
+// Missing values are null, as pivot leaves them; the charts draw them with their missingValues mode
+type ChartRow = Record<string, string | number | null>
+
+// Rows and the config generated for their series, ready for AreaChartComponent, BarChartComponent or LineChartComponent
+export interface ChartDataResult {
+    data: ChartRow[]
+    chartConfig: ChartConfig
+}
+
+// Declarative steps for the `transform` prop, run in order; plain JSON so they can come from a report definition
+export type ChartTransformStep =
+    | ({ type: 'pivot' } & PivotLongOptions)
+    | ({ type: 'group' } & GroupByOptions)
+    | ({ type: 'bucket' } & BucketByTimeOptions)
+    | { type: 'cumulative'; keys?: string[] }
+    | { type: 'moving-average'; window: number; keys?: string[] }
+    | { type: 'percent-of-total'; keys?: string[]; mode?: PercentOfTotalMode }
+
+export type ChartTransform = ChartTransformStep | ChartTransformStep[]
+
+export interface PivotLongOptions {
+    index: string               // Column that becomes the x axis, e.g. "date"
+    columns: string             // Column whose values become series, e.g. "channel"
+    values: string              // Column holding the numbers, e.g. "value"
+    aggregate?: ChartAggregate  // How repeated index/column pairs combine (default 'sum')
+}
+
+export interface GroupByOptions {
+    by: string
+    values?: string[]           // Columns to aggregate; 'count' without values counts rows into a "count" key
+    aggregate?: ChartAggregate  // Default 'sum'
+}
+
+export interface BucketByTimeOptions {
+    dateKey: string
+    unit: TimeBucketUnit
+    values?: string[]           // Default: every numeric column but dateKey
+    aggregate?: ChartAggregate  // Default 'sum'
+}
+
+// 'row': share of the row's total across keys (like stacked-expanded), 'column': share of the key's total
+export type PercentOfTotalMode = 'row' | 'column'
+
+const CHART_COLOR_COUNT = 5
+
+const toLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1)
+
+//todo: ==== ChartConfig for generated series: the key as label, theme colors in turn ====
+export const createChartConfig = (keys: string[]): ChartConfig => {
+    return Object.fromEntries(keys.map((key, index) => [
+        key,
+        { label: toLabel(key), color: `var(--chart-${(index % CHART_COLOR_COUNT) + 1})` },
+    ]))
+}
+
+//todo: ==== Combine the present values of a cell; null when there's nothing to combine ====
+const aggregateValues = (values: unknown[], aggregate: ChartAggregate): number | null => {
+    const numbers = values.filter(value => !isMissingValue(value)) as number[]
+    if (aggregate === 'count') return numbers.length
+    if (!numbers.length) return null
+
+    switch (aggregate) {
+        case 'avg':
+            return numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+        case 'min':
+            return numbers.reduce((acc, value) => Math.min(acc, value))
+        case 'max':
+            return numbers.reduce((acc, value) => Math.max(acc, value))
+        case 'sum':
+        default:
+            return numbers.reduce((sum, value) => sum + value, 0)
+    }
+}
+
+//todo: ==== Group rows by a key, keeping first-appearance order ====
+const groupRows = <T extends SourceRow>(rows: T[], getKey: (row: T) => string | number | null) => {
+    const groups = new Map<string | number, T[]>()
+
+    rows.forEach(row => {
+        const key = getKey(row)
+        if (key === null) return
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(row)
+    })
+
+    return groups
+}
+
+//todo: ==== Long rows ({ date, channel, value }) to wide rows keyed by series ({ date, email, search }) ====
+export const pivotLong = (rows: SourceRow[], { index, columns, values, aggregate = 'sum' }: PivotLongOptions): ChartDataResult => {
+    const seriesKeys: string[] = []
+    const cells = new Map<string | number, Map<string, unknown[]>>()
+
+    rows.forEach(row => {
+        const indexValue = row[index]
+        const column = row[columns]
+        if (indexValue === null || indexValue === undefined || column === null || column === undefined) return
+
+        const indexKey = typeof indexValue === 'number' ? indexValue : String(indexValue)
+        const seriesKey = String(column)
+        if (!seriesKeys.includes(seriesKey)) seriesKeys.push(seriesKey)
+        if (!cells.has(indexKey)) cells.set(indexKey, new Map())
+
+        const cell = cells.get(indexKey)!
+        if (!cell.has(seriesKey)) cell.set(seriesKey, [])
+        cell.get(seriesKey)!.push(row[values])
+    })
+
+    // A series without a value for an index is missing there, the chart's missingValues mode decides
+    const data = [...cells.entries()].map(([indexKey, cell]) => {
+        const row: ChartRow = { [index]: indexKey }
+        seriesKeys.forEach(key => { row[key] = cell.has(key) ? aggregateValues(cell.get(key)!, aggregate) : null })
+        return row
+    })
+
+    return { data, chartConfig: createChartConfig(seriesKeys) }
+}
+
+//todo: ==== One row per distinct `by` value with its columns aggregated ====
+export const groupBy = (rows: SourceRow[], { by, values = [], aggregate = 'sum' }: GroupByOptions): ChartDataResult => {
+    const valueKeys = values.length ? values : aggregate === 'count' ? ['count'] : []
+    const groups = groupRows(rows, row => {
+        const value = row[by]
+        return value === null || value === undefined ? null : typeof value === 'number' ? value : String(value)
+    })
+
+    const data = [...groups.entries()].map(([group, items]) => {
+        const row: ChartRow = { [by]: group }
+        valueKeys.forEach(key => {
+            row[key] = values.length ? aggregateValues(items.map(item => item[key]), aggregate) : items.length
+        })
+        return row
+    })
+
+    return { data, chartConfig: createChartConfig(valueKeys) }
+}
+
+//todo: ==== Start of the local-time bucket a time falls in, like the time axis ticks; weeks start on Monday (ISO), quarters in Jan/Apr/Jul/Oct ====
+const floorToBucket = (time: number, unit: TimeBucketUnit) => {
+    const date = new Date(time)
+
+    switch (unit) {
+        case 'hour':
+            date.setMinutes(0, 0, 0)
+            break
+        case 'day':
+            date.setHours(0, 0, 0, 0)
+            break
+        case 'week':
+            date.setDate(date.getDate() - (date.getDay() + 6) % 7)
+            date.setHours(0, 0, 0, 0)
+            break
+        case 'month':
+            date.setDate(1)
+            date.setHours(0, 0, 0, 0)
+            break
+        case 'quarter':
+            date.setMonth(date.getMonth() - date.getMonth() % 3, 1)
+            date.setHours(0, 0, 0, 0)
+            break
+    }
+
+    return date.getTime()
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+//todo: ==== Bucket start as a local date ("2024-04-01") or date and hour ("2024-04-01T10:00"), read back as local time ====
+const formatBucketStart = (time: number, unit: TimeBucketUnit) => {
+    const date = new Date(time)
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    return unit === 'hour' ? `${day}T${pad(date.getHours())}:00` : day
+}
+
+//todo: ==== Numeric columns of the rows, in first-appearance order ====
+const getNumericKeys = (rows: SourceRow[], exclude: string[] = []) => {
+    const keys = new Set<string>()
+    rows.forEach(row => Object.keys(row).forEach(key => {
+        if (!exclude.includes(key) && typeof row[key] === 'number') keys.add(key)
+    }))
+    return [...keys]
+}
+
+//todo: ==== Aggregate rows into hour/day/week/month/quarter buckets; the bucket start is a local ISO string (date only from day up) ====
+export const bucketByTime = (rows: SourceRow[], { dateKey, unit, values, aggregate = 'sum' }: BucketByTimeOptions): ChartDataResult => {
+    const valueKeys = values ?? getNumericKeys(rows, [dateKey])
+    const groups = groupRows(rows, row => {
+        const date = toDate(row[dateKey])
+        return date ? floorToBucket(date.getTime(), unit) : null
+    })
+
+    const data = [...groups.entries()]
+        .sort(([a], [b]) => (a as number) - (b as number))
+        .map(([start, bucketRows]) => {
+            const row: ChartRow = { [dateKey]: formatBucketStart(start as number, unit) }
+            valueKeys.forEach(key => { row[key] = aggregateValues(bucketRows.map(item => item[key]), aggregate) })
+            return row
+        })
+
+    return { data, chartConfig: createChartConfig(valueKeys) }
+}
+
+//todo: ==== Running totals per key; a missing value stays missing and the total carries on ====
+export const cumulativeSum = <T extends ChartRow>(rows: T[], keys: string[]): T[] => {
+    const totals: Record<string, number> = {}
+
+    return rows.map(row => {
+        const next: Record<string, unknown> = { ...row }
+        keys.forEach(key => {
+            if (isMissingValue(row[key])) return
+            totals[key] = (totals[key] ?? 0) + (row[key] as number)
+            next[key] = totals[key]
+        })
+        return next as T
+    })
+}
+
+//todo: ==== Trailing moving average over `window` rows, the first rows average what's available ====
+export const movingAverage = <T extends ChartRow>(rows: T[], keys: string[], window: number): T[] => {
+    const size = Math.max(1, Math.floor(window))
+
+    return rows.map((row, index) => {
+        const next: Record<string, unknown> = { ...row }
+        const slice = rows.slice(Math.max(0, index - size + 1), index + 1)
+        keys.forEach(key => {
+            if (isMissingValue(row[key])) return
+            next[key] = aggregateValues(slice.map(item => item[key]), 'avg')
+        })
+        return next as T
+    })
+}
+
+//todo: ==== Values as a percentage (0-100) of the row total across keys, or of each key's column total ====
+export const percentOfTotal = <T extends ChartRow>(rows: T[], keys: string[], mode: PercentOfTotalMode = 'row'): T[] => {
+    const columnTotals = Object.fromEntries(keys.map(key => [key, aggregateValues(rows.map(row => row[key]), 'sum') ?? 0]))
+
+    return rows.map(row => {
+        const next: Record<string, unknown> = { ...row }
+        const rowTotal = aggregateValues(keys.map(key => row[key]), 'sum') ?? 0
+
+        keys.forEach(key => {
+            if (isMissingValue(row[key])) return
+            const total = mode === 'row' ? rowTotal : columnTotals[key]
+            next[key] = total ? (row[key] as number) / total * 100 : 0
+        })
+        return next as T
+    })
+}
+
+//todo: ==== Run transform steps in order; reshaping steps generate the config, the given chartConfig overrides labels and colors ====
+export const applyChartTransform = (
+    data: SourceRow[],
+    transform: ChartTransform,
+    chartConfig: ChartConfig = {},
+): ChartDataResult => {
+    const steps = Array.isArray(transform) ? transform : [transform]
+    let rows = data as ChartRow[]
+    let generated: ChartConfig | null = null
+    const percentKeys = new Set<string>()
+
+    for (const step of steps) {
+        const seriesKeys = 'keys' in step && step.keys ? step.keys : Object.keys(generated ?? chartConfig)
+
+        switch (step.type) {
+            case 'pivot':
+                ({ data: rows, chartConfig: generated } = pivotLong(rows, step))
+                break
+            case 'group':
+                ({ data: rows, chartConfig: generated } = groupBy(rows, step))
+                break
+            case 'bucket':
+                // After a pivot the generated series are the values to bucket
+                ({ data: rows, chartConfig: generated } = bucketByTime(rows, {
+                    ...step,
+                    values: step.values ?? (generated ? Object.keys(generated) : undefined),
+                }))
+                break
+            case 'cumulative':
+                rows = cumulativeSum(rows, seriesKeys)
+                break
+            case 'moving-average':
+                rows = movingAverage(rows, seriesKeys, step.window)
+                break
+            case 'percent-of-total':
+                rows = percentOfTotal(rows, seriesKeys, step.mode)
+                seriesKeys.forEach(key => percentKeys.add(key))
+                break
+        }
+    }
+
+    // Only the generated series are plotted, a given entry for the same key wins field by field
+    const baseConfig: ChartConfig = generated ?? chartConfig
+    const config = Object.fromEntries(Object.keys(baseConfig).map(key => {
+        const entry = { ...baseConfig[key], ...chartConfig[key] }
+        return [key, percentKeys.has(key) && !entry.format ? { ...entry, format: 'percent' as const } : entry]
+    })) as ChartConfig
+
+    return { data: rows, chartConfig: config }
+}
@@ -0,0 +1,153 @@
+import type { ChartConfig } from "../components/ui/chart"
+import { formatValue, type ValueFormat } from "./format"
+import { isMissingValue } from "./missing"
+import type { SeriesTrend } from "./summary"
+
+export type ChartTrendCompare =
+    | 'previous-point'      // Last value against the one before it
+    | 'first-last'          // Last value against the first
+    | 'period-over-period'  // Sum of the last `period` points against the `period` points before them
+
+// footerContent.trend: the footer headline, icon and color follow the data instead of a hardcoded string
+export interface ChartFooterTrend {
+    seriesKey: string
+    compare: ChartTrendCompare
+    period?: number         // Points per period for 'period-over-period', default half of them
+    // Headline with {direction}, {percent}, {delta}, {from}, {to} and {label} placeholders,
+    // e.g. "Trending {direction} by {percent} this month"
+    template?: string
+    format?: ValueFormat    // For {delta}, {from} and {to}; defaults to the series' chartConfig format
+    invert?: boolean        // Lower is better (costs, latency): a rise is colored negative
+}
+
+export interface ChartTrend {
+    seriesKey: string
+    from: number
+    to: number
+    delta: number
+    percent: number | null  // null when `from` is 0
+    direction: SeriesTrend
+}
+
+const DEFAULT_TEMPLATE = 'Trending {direction} by {percent}'
+const DEFAULT_FLAT_TEMPLATE = 'No change'
+
+const POSITIVE_COLOR = 'text-green-600'
+const NEGATIVE_COLOR = 'text-red-600'
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+//todo: ==== The two values a comparison is made between; null when there aren't enough points ====
+const getComparedValues = (values: number[], compare: ChartTrendCompare, period?: number) => {
+    if (values.length < 2) return null
+
+    switch (compare) {
+        case 'previous-point':
+            return { from: values[values.length - 2], to: values[values.length - 1] }
+        case 'first-last':
+            return { from: values[0], to: values[values.length - 1] }
+        case 'period-over-period': {
+            const size = Math.floor(period ?? values.length / 2)
+            if (size < 1 || size * 2 > values.length) return null
+            return {
+                from: sum(values.slice(-size * 2, -size)),
+                to: sum(values.slice(-size)),
+            }
+        }
+    }
+}
+
+//todo: ==== Delta, percent and direction of a series, missing values are skipped ====
+export const computeChartTrend = (
+    data: Array<Record<string, unknown>>,
+    { seriesKey, compare, period }: Pick<ChartFooterTrend, 'seriesKey' | 'compare' | 'period'>,
+): ChartTrend | null => {
+    const values = data
+        .map(row => row[seriesKey])
+        .filter(value => !isMissingValue(value)) as number[]
+
+    const compared = getComparedValues(values, compare, period)
+    if (!compared) return null
+
+    const { from, to } = compared
+    const delta = to - from
+
+    return {
+        seriesKey,
+        from,
+        to,
+        delta,
+        percent: from === 0 ? null : delta / Math.abs(from) * 100,
+        direction: delta > 0 ? 'up' : delta < 0 ? 'down' : 'flat',
+    }
+}
+
+//todo: ==== Headline from the template; amounts are unsigned, {direction} carries the sign ====
+export const formatChartTrend = (
+    trend: ChartTrend,
+    {
+        template,
+        format = 'full',
+        label = trend.seriesKey,
+        locale,
+    }: { template?: string; format?: ValueFormat; label?: string; locale?: string } = {},
+) => {
+    const amount = (value: number) => formatValue(value, format, { locale })
+    // Without a base to compare against, the percent falls back to the delta
+    const percent = trend.percent === null
+        ? amount(Math.abs(trend.delta))
+        : formatValue(Math.abs(trend.percent), 'percent', { locale })
+
+    const values: Record<string, string> = {
+        direction: trend.direction,
+        percent,
+        delta: amount(Math.abs(trend.delta)),
+        from: amount(trend.from),
+        to: amount(trend.to),
+        label,
+    }
+
+    const text = template ?? (trend.direction === 'flat' ? DEFAULT_FLAT_TEMPLATE : DEFAULT_TEMPLATE)
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match)
+}
+
+//todo: ==== Positive or negative color class for a direction, swapped when lower is better ====
+export const getTrendColor = (direction: SeriesTrend, invert = false) => {
+    if (direction === 'flat') return undefined
+    return (direction === 'up') !== invert ? POSITIVE_COLOR : NEGATIVE_COLOR
+}
+
+//todo: ==== Fill the footer from its trend; a manual mainText, trendingColor or showTrending still wins ====
+// `data` is what the chart shows (time range, zoom window); a hidden series has no trend
+export const resolveFooterTrend = <T extends {
+    mainText?: string
+    showTrending?: boolean
+    trendingColor?: string
+    trend?: ChartFooterTrend
+}>(
+    footer: T | undefined,
+    data: Array<Record<string, unknown>>,
+    { chartConfig, locale, visibleKeys }: { chartConfig?: ChartConfig; locale?: string; visibleKeys?: string[] } = {},
+): (T & { trendDirection?: SeriesTrend }) | undefined => {
+    if (!footer?.trend) return footer
+    if (visibleKeys && !visibleKeys.includes(footer.trend.seriesKey)) return footer
+
+    const trend = computeChartTrend(data, footer.trend)
+    if (!trend) return footer
+
+    const { seriesKey, template, format, invert } = footer.trend
+    const series = chartConfig?.[seriesKey]
+
+    return {
+        ...footer,
+        mainText: footer.mainText ?? formatChartTrend(trend, {
+            template,
+            format: format ?? series?.format,
+            label: typeof series?.label === 'string' ? series.label : seriesKey,
+            locale,
+        }),
+        showTrending: footer.showTrending ?? trend.direction !== 'flat',
+        trendingColor: footer.trendingColor ?? getTrendColor(trend.direction, invert),
+        trendDirection: trend.direction,
+    }
+}